@@ -6,7 +6,7 @@ import {
     Dict,
     Selection,
     Awaitable,
-    Update
+    Tables
 } from 'koishi'
 import { type GuildMember } from '@satorijs/protocol'
 
@@ -14,28 +14,70 @@ import {} from '@koishijs/plugin-help'
 import {} from 'koishi-plugin-w-option-conflict'
 import {} from 'koishi-plugin-w-echarts'
 import {} from 'koishi-plugin-w-tesseract'
+import {} from '@koishijs/canvas'
+import {} from 'koishi-plugin-puppeteer'
+import {} from '@koishijs/assets'
 import { type Jieba, type Tag } from 'koishi-plugin-w-jieba'
 
 import dedent from 'dedent'
 import dayjs, { type Dayjs } from 'dayjs'
+import dayjsUtc from 'dayjs/plugin/utc'
+import dayjsTimezone from 'dayjs/plugin/timezone'
+import dayjsCustomParseFormat from 'dayjs/plugin/customParseFormat'
+import { createHash } from 'node:crypto'
+import { createReadStream, createWriteStream } from 'node:fs'
+import { access, mkdir, readFile, writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import { createInterface } from 'node:readline'
+import { once } from 'node:events'
+
+dayjs.extend(dayjsUtc)
+dayjs.extend(dayjsTimezone)
+dayjs.extend(dayjsCustomParseFormat)
 
 export const name = 'w-repeat'
 
 export const inject = {
     required: [ 'database' ],
-    optional: [ 'echarts', 'tesseract', 'jieba' ]
+    optional: [ 'echarts', 'tesseract', 'jieba', 'canvas', 'puppeteer', 'assets' ]
 }
 
+export type RepeatNormalizer =
+    | 'trim'
+    | 'collapse-whitespace'
+    | 'full-width'
+    | 'trailing-punctuation'
+    | 'ignore-case'
+    | 'canonical-elements'
+    | 'drop-bot-at'
+
 export interface RepeatSettings {
     doWrite: boolean
 
     repeatCount: number
     maxUnrelatedCount: number
+    senderMode: 'all' | 'no-consecutive' | 'distinct'
+
+    botRepeatStrategy: 'count' | 'probability'
+    botRepeatProbabilities: number[]
+    botRepeatMinTps: number
+    botRepeatDelay: number
+    botRepeatCooldown: number
+    botRepeatDedupWindow: number
+    botInterruptCount: number
+    botInterruptMessage: string
+
+    slicedSourceWindow: number
+    slicedSourceMinLength: number
+
+    announceAchievement: boolean
 
     repeatBlacklist: string[]
+    normalizers: RepeatNormalizer[]
 
     doProceedImage: boolean
     enableOcr: boolean
+    imageHashThreshold: number
 
     enableSegmentation: boolean
     segmentationWordBlacklist: string[]
@@ -45,13 +87,40 @@ export interface RepeatSettings {
 export const RepeatSettings: z<RepeatSettings> = z.object({
     doWrite: z.boolean().default(true).description('是否启用复读写入（包括记录和机器人复读，不包括查询）'),
 
-    repeatCount: z.natural().default(0).description('机器人复读需要的次数，0 为不复读'),
+    repeatCount: z.natural().default(0).description('按次数复读时，机器人复读需要的次数，0 为不复读'),
     maxUnrelatedCount: z.natural().default(5).description('恢复挂起的复读前允许的最大无关消息条数，0 为禁用挂起'),
+    senderMode: z.union([ 'all', 'no-consecutive', 'distinct' ]).default('all')
+        .description('复读发送者计入方式：全部计入（all）、忽略同一人连续发送（no-consecutive）、每人只计入一次（distinct）'),
 
-    repeatBlacklist: z.array(z.string()).description('复读内容黑名单'),
+    botRepeatStrategy: z.union([ 'count', 'probability' ]).default('count').description('机器人复读策略：按次数（count）或按概率（probability）'),
+    botRepeatProbabilities: z.array(z.number().min(0).max(1)).default([ 0, .1, .3, .5 ])
+        .description('按概率复读时，第 n 项为 n 人复读时机器人加入的概率，超出部分取最后一项'),
+    botRepeatMinTps: z.number().min(0).default(0).description('机器人复读要求的最小每秒复读次数，0 为不限制'),
+    botRepeatDelay: z.natural().default(0).description('机器人复读前的最大随机延迟（毫秒）'),
+    botRepeatCooldown: z.natural().default(0).description('机器人复读或打断的冷却时间（秒）'),
+    botRepeatDedupWindow: z.natural().default(0).description('机器人在此时间（秒）内不会重复复读相同内容，0 为不限制'),
+    botInterruptCount: z.natural().default(0).description('复读人数达到此值时机器人主动打断，0 为不打断'),
+    botInterruptMessage: z.string().default('打断！').description('机器人打断复读时发送的消息'),
+
+    slicedSourceWindow: z.natural().default(10).description('查找截取来源（即复读内容截取自之前的某条消息）时回溯的消息条数，0 为禁用'),
+    slicedSourceMinLength: z.natural().min(1).default(2).description('查找截取来源时复读内容的最小长度'),
 
-    doProceedImage: z.boolean().default(false).description('是否处理图片（会使用较多数据库空间）'),
+    announceAchievement: z.boolean().default(false).description('是否在群内公告新解锁的复读成就'),
+
+    repeatBlacklist: z.array(z.string()).description('复读内容黑名单'),
+    normalizers: z.array(z.union([
+        z.const('trim').description('去除首尾空白'),
+        z.const('collapse-whitespace').description('合并连续空白'),
+        z.const('full-width').description('全角字符转为半角'),
+        z.const('trailing-punctuation').description('去除末尾标点'),
+        z.const('ignore-case').description('忽略大小写'),
+        z.const('canonical-elements').description('表情和 @ 只比较 ID'),
+        z.const('drop-bot-at').description('忽略 @ 机器人')
+    ])).role('checkbox').default([]).description('判断复读前对消息进行的规范化处理，不影响保存的内容'),
+
+    doProceedImage: z.boolean().default(false).description('是否处理图片（相同图片只存储一次，但仍会使用较多数据库空间）'),
     enableOcr: z.boolean().default(true).description('是否自动识别复读消息图片中文字'),
+    imageHashThreshold: z.natural().max(64).default(0).description('图片模糊匹配允许的最大感知哈希汉明距离（0 ~ 64），0 为精确匹配（需要 canvas 服务）'),
 
     enableSegmentation: z.boolean().default(true).description('是否对复读消息分词'),
     segmentationWordBlacklist: z.array(z.string()).description('复读词频统计中不显示的词'),
@@ -65,6 +134,20 @@ export interface Config {
 
     ocrLangs: string[]
 
+    runtimeMaxAge: number
+    runtimeSaveInterval: number
+
+    imageStorage: RepeatImageStorage
+    imageThumbnailSize: number
+
+    imageDownloadTimeout: number
+    imageDownloadMaxSize: number
+    imageDownloadRetries: number
+    imageDownloadConcurrency: number
+
+    timezone: string
+    calendarRollupDelay: number
+
     globalSettings: RepeatSettings
     guildSettings: Record<string, RepeatSettings>
 }
@@ -80,25 +163,122 @@ export const Config: z<Config> = z.object({
     ocrLangs: z.array(z.string()).default([ 'chi_sim', 'eng' ]).description('识别图片中文字时尝试的语言，参考 ' +
         '<https://tesseract-ocr.github.io/tessdoc/Data-Files#data-files-for-version-400-november-29-2016>'
     ),
+
+    runtimeMaxAge: z.natural().default(60).description('恢复复读运行时时，未激活和挂起的复读最多保留多久（分钟），0 为不限制'),
+    runtimeSaveInterval: z.natural().default(5).description('复读运行时最多每隔多少秒写入一次数据库，0 为每条消息都写入'),
+
+    imageStorage: z.union([ 'database', 'file', 'assets' ]).default('database')
+        .description('图片存储方式：数据库（database）、本地文件（file，位于 data/w-repeat/images）或 assets 服务（assets）'),
+    imageThumbnailSize: z.natural().default(0).description('图片缩略图的最大边长（像素），0 为不生成缩略图（需要 canvas 服务）'),
+
+    imageDownloadTimeout: z.natural().default(10000).description('单次图片下载的超时时间（毫秒）'),
+    imageDownloadMaxSize: z.natural().default(10240).description('图片大小上限（KB），超过则放弃下载'),
+    imageDownloadRetries: z.natural().default(2).description('图片下载失败后的重试次数'),
+    imageDownloadConcurrency: z.natural().min(1).default(2).description('每个群同时下载的图片数'),
+
+    timezone: z.string().default('Asia/Shanghai').description('复读日历按此时区划分日期，参考 <https://en.wikipedia.org/wiki/List_of_tz_database_time_zones>'),
+    calendarRollupDelay: z.natural().default(5).description('每天零点后多少分钟汇总前一天的复读日历'),
 })
 
 declare module 'koishi' {
+    interface Context {
+        repeat: RepeatService
+    }
+
+    interface Events {
+        'repeat/start'(session: Session, rec: RepeatQueuedRecord): void         // 复读成为完整复读（发送者达到 2 人）
+        'repeat/join'(session: Session, rec: RepeatQueuedRecord): void          // 有人加入复读
+        'repeat/interrupt'(session: Session, rec: RepeatRecord): void           // 复读被打断并写入记录
+        'repeat/suspend'(session: Session, rec: RepeatSuspendedRecord): void    // 被打断的复读挂起
+        'repeat/resume'(session: Session, rec: RepeatQueuedRecord): void        // 挂起的复读恢复
+        'repeat/bot-repeat'(session: Session, rec: RepeatQueuedRecord): void    // 机器人复读
+        'repeat/bot-interrupt'(session: Session, rec: RepeatQueuedRecord): void // 机器人打断复读
+    }
+
     interface Tables {
-        'w-repeat-record': RepeatRecord         // 复读记录表
-        'w-repeat-user': RepeatUser             // 复读用户表
-        'w-repeat-calendar': RepeatDay          // 复读日历
-        'w-repeat-word': RepeatWord             // 复读分词表
+        'w-repeat-record': RepeatRecord                   // 复读记录表
+        'w-repeat-user': RepeatUser                       // 复读用户表
+        'w-repeat-guild-user': RepeatGuildUser            // 复读群用户表
+        'w-repeat-calendar': RepeatDay                    // 复读日历
+        'w-repeat-word': RepeatWord                       // 复读分词表
+        'w-repeat-runtime': RepeatRuntimeRecord           // 复读运行时表
+        'w-repeat-image': RepeatImageData                 // 复读图片表
+        'w-repeat-settings': RepeatGuildSettings          // 群复读设置表
+        'w-repeat-settings-history': RepeatSettingsChange // 群复读设置修改历史
+        'w-repeat-achievement': RepeatAchievementUnlock   // 复读成就解锁表
     }
 }
 
 export interface RepeatImage {
-    b64: string
+    hash?: string     // 内容哈希（SHA-256），复读记录中只保存此引用，旧记录中可能没有
+    b64?: string
+    text?: string
+    phash?: string    // 感知哈希（dHash），16 位十六进制
+    quickKey?: string // 由图片元素属性得到的标识，下载完成前用于匹配
+    src?: string      // 原始 URL，内存中没有图片内容时用于显示，不写入记录
+}
+
+export type RepeatImageStorage = 'database' | 'file' | 'assets'
+
+export interface RepeatImageData {
+    hash: string
+    storage: RepeatImageStorage // 旧数据中没有，视为 database
+    b64: string                 // 存储在数据库中时的图片内容
+    path: string                // 存储在本地文件时为文件名，存储在 assets 服务时为 URL
+    thumbnail: string           // 缩略图（PNG），未生成时为空
     text: string
+    phash: string
+    size: number
+    createTime: number
+}
+
+// 附件元素属性，只列出用于标识和显示的属性，其余属性原样保存以便重新发送
+export interface RepeatFileAttrs {
+    src?: string
+    url?: string
+    title?: string
+    md5?: string
+    fileUnique?: string
+    fileId?: string
+    file?: string
+    [attr: string]: unknown
+}
+
+export interface RepeatStickerAttrs {
+    id?: string
+    emojiId?: string
+    key?: string
+    src?: string
+    url?: string
+    title?: string
+    [attr: string]: unknown
+}
+
+export interface RepeatAttachmentAttrs {
+    'audio': RepeatFileAttrs
+    'video': RepeatFileAttrs
+    'file': RepeatFileAttrs
+    'sticker': RepeatStickerAttrs
+    'mface': RepeatStickerAttrs
+    'chronocat:marketface': RepeatStickerAttrs
+    'message': { id?: string } // 合并转发只保存标识
 }
 
+export type RepeatAttachmentType = keyof RepeatAttachmentAttrs
+
+export type RepeatAttachment<T extends RepeatAttachmentType = RepeatAttachmentType> = {
+    [K in T]: {
+        type: K       // 元素类型，合并转发为 message
+        key: string   // 与 URL 无关的身份标识，用于匹配
+        attrs: RepeatAttachmentAttrs[K]
+    }
+}[T]
+
 export interface RepeatMessage {
     content?: string
+    key?: string // 规范化后用于匹配的内容，未启用规范化时与 content 相同，旧记录中没有
     images?: RepeatImage[]
+    attachments?: RepeatAttachment[] // 图片以外的附件，在 content 中以 @__KOISHI_ATTACHMENT__@ 占位，旧记录中没有
     words?: Tag[]
     quote?: {
         valid: boolean
@@ -114,15 +294,24 @@ export interface RepeatRecordBase extends RepeatMessage {
     endTime: number
     interrupter: string
     suspensions: RepeatSuspensionBase[]
+    slicedSource?: RepeatSource // 截取来源，只用于展示；发起者仍为 senders[0]，即第一个发送截取内容的用户
 }
 
 export interface RepeatRecord extends RepeatRecordBase {
     id: number
+    distinctCount: number // 不同发送者数
+}
+
+export interface RepeatSource {
+    uid: string
+    content: string
+    time: number
 }
 
 export interface RepeatSuspensionBase {
     suspendTime: number
     resumeTime: number
+    resumer?: string // 恢复复读的用户，旧记录中没有
 }
 
 export interface RepeatWindow {
@@ -143,8 +332,100 @@ export interface RepeatRuntime {
     currentRec: RepeatQueuedRecord | RepeatSuspendedRecord
     queuedRecs: RepeatQueuedRecord[]
     suspendedRecs: RepeatSuspendedRecord[]
+    recentMessages: RepeatSource[]
+}
+
+export interface RepeatRuntimeRecord extends RepeatRuntime {
+    gid: string
+    currentIndex: number // 当前复读在未激活复读队列中的位置，-1 表示不在队列中
+    updateTime: number
+}
+
+export interface RepeatRecordFilter {
+    gid?: string            // 群，不指定则为所有群
+    duration?: string       // 时间范围，格式同 repeat.stat 的 -d 选项
+    content?: string        // 内容正则
+    image?: boolean         // 是否只包含有图片的记录
+    starter?: string
+    repeater?: string
+    interrupter?: string
+    minDistinct?: number    // 最少不同发送者数
+    query?: string          // 查询语句，语法见 repeat.stat 的用法说明
+    platform?: string       // 查询语句中 @用户 所在的平台
+}
+
+export interface RepeatTops {
+    repeaters: [ string, number ][]
+    starters: [ string, number ][]
+    interrupters: [ string, number ][]
+}
+
+export interface RepeatGuildStat extends RepeatTops {
+    total: number
+}
+
+export interface RepeatService {
+    parseDuration(duration: string): Query<RepeatRecord> & object
+    getMemberDict(session: Session, guildId: string): Promise<Record<string, GuildMember>>
+    getMemberName(memberDict: Record<string, GuildMember>, uid: string): string
+
+    getRuntime(gid: string): RepeatRuntime | undefined
+    // 强制写入当前复读（无打断者），返回写入的记录，若当前复读不是完整复读则返回 undefined
+    flushRuntime(gid: string): Promise<RepeatRecord | undefined>
+
+    getRecords(filter: RepeatRecordFilter): Promise<RepeatRecord[]>
+    deleteRecord(id: number): Promise<boolean>
+
+    // 指定群时返回该群内的统计，否则返回所有群的统计
+    getUserStat(uid: string, gid?: string): Promise<RepeatUser | undefined>
+    getGuildStat(filter: RepeatRecordFilter): Promise<RepeatGuildStat>
+}
+
+export interface RepeatGuildSettings {
+    gid: string
+    settings: RepeatSettings
+    updateTime: number
+}
+
+export interface RepeatSettingsChange {
+    id: number
+    gid: string
+    key: string
+    oldValue: RepeatSettings[keyof RepeatSettings]
+    newValue: RepeatSettings[keyof RepeatSettings]
+    operator: string
+    time: number
 }
 
+export interface RepeatExportHeader {
+    type: 'header'
+    version: number
+    exportTime: number
+    gid?: string
+    duration: string
+}
+
+export interface RepeatExportTables {
+    'record': RepeatRecord
+    'user': RepeatUser
+    'guild-user': RepeatGuildUser
+    'calendar': RepeatDay
+    'word': RepeatWord
+    'image': RepeatImageData
+    'achievement': RepeatAchievementUnlock
+}
+
+export type RepeatExportType = keyof RepeatExportTables
+
+export type RepeatExportItem<K extends RepeatExportType = RepeatExportType> = {
+    [T in K]: {
+        type: T
+        data: RepeatExportTables[T]
+    }
+}[K]
+
+export type RepeatExportLine = RepeatExportHeader | RepeatExportItem
+
 export interface RepeatUser {
     uid: string
     repeatTime: number
@@ -154,6 +435,28 @@ export interface RepeatUser {
     interruptTime: number
 }
 
+export interface RepeatGuildUser extends RepeatUser {
+    gid: string
+}
+
+export interface RepeatAchievement {
+    key: string
+    name: string
+    description: string
+    goal: number
+    // 根据群用户统计计算进度
+    getProgress?: (user: RepeatGuildUser) => number
+    // 根据刚写入的复读记录判断是否达成，这类成就没有进度
+    isReachedBy?: (rec: RepeatRecord, uid: string) => boolean
+}
+
+export interface RepeatAchievementUnlock {
+    gid: string
+    uid: string
+    key: string
+    unlockTime: number
+}
+
 export interface RepeatDay {
     gid: string
     month: string
@@ -164,6 +467,7 @@ export interface RepeatDay {
     topStarterCount: number
     topInterrupterId: string
     topInterrupterCount: number
+    updateTime: number
 }
 
 export interface RepeatWord {
@@ -179,6 +483,8 @@ export async function apply(ctx: Context, config: Config) {
         id: 'unsigned',
         gid: 'string',
         content: 'text',
+        key: 'text',
+        attachments: 'json',
         senders: {
             type: 'array',
             inner: 'string'
@@ -186,6 +492,7 @@ export async function apply(ctx: Context, config: Config) {
         startTime: 'unsigned',
         endTime: 'unsigned',
         interrupter: 'string',
+        distinctCount: 'unsigned',
         quote: {
             type: 'object',
             inner: {
@@ -199,8 +506,10 @@ export async function apply(ctx: Context, config: Config) {
             inner: {
                 type: 'object',
                 inner: {
+                    hash: 'string',
                     text: 'string',
-                    b64: 'string'
+                    b64: 'string',
+                    phash: 'string'
                 }
             }
         },
@@ -220,9 +529,18 @@ export async function apply(ctx: Context, config: Config) {
                 type: 'object',
                 inner: {
                     suspendTime: 'unsigned',
-                    resumeTime: 'unsigned'
+                    resumeTime: 'unsigned',
+                    resumer: 'string'
                 }
             }
+        },
+        slicedSource: {
+            type: 'object',
+            inner: {
+                uid: 'string',
+                content: 'text',
+                time: 'unsigned'
+            }
         }
     }, { autoInc: true })
 
@@ -239,6 +557,16 @@ export async function apply(ctx: Context, config: Config) {
         interruptTime: counterField()
     }, { primary: 'uid' })
 
+    ctx.model.extend('w-repeat-guild-user', {
+        gid: 'string',
+        uid: 'string',
+        repeatTime: counterField(),
+        repeatCount: counterField(),
+        beRepeatedTime: counterField(),
+        beRepeatedCount: counterField(),
+        interruptTime: counterField()
+    }, { primary: [ 'gid', 'uid' ] })
+
     ctx.model.extend('w-repeat-calendar', {
         gid: 'string',
         month: 'string',
@@ -248,7 +576,8 @@ export async function apply(ctx: Context, config: Config) {
         topStarterId: 'string',
         topStarterCount: 'unsigned',
         topInterrupterId: 'string',
-        topInterrupterCount: 'unsigned'
+        topInterrupterCount: 'unsigned',
+        updateTime: 'unsigned'
     }, {
         primary: [ 'gid', 'month', 'day' ]
     })
@@ -262,6 +591,59 @@ export async function apply(ctx: Context, config: Config) {
         primary: [ 'gid', 'word', 'tag' ]
     })
 
+    ctx.model.extend('w-repeat-runtime', {
+        gid: 'string',
+        currentRec: 'json',
+        currentIndex: 'integer',
+        queuedRecs: 'json',
+        suspendedRecs: 'json',
+        recentMessages: 'json',
+        updateTime: 'unsigned'
+    }, {
+        primary: 'gid'
+    })
+
+    ctx.model.extend('w-repeat-settings', {
+        gid: 'string',
+        settings: 'json',
+        updateTime: 'unsigned'
+    }, {
+        primary: 'gid'
+    })
+
+    ctx.model.extend('w-repeat-achievement', {
+        gid: 'string',
+        uid: 'string',
+        key: 'string',
+        unlockTime: 'unsigned'
+    }, {
+        primary: [ 'gid', 'uid', 'key' ]
+    })
+
+    ctx.model.extend('w-repeat-settings-history', {
+        id: 'unsigned',
+        gid: 'string',
+        key: 'string',
+        oldValue: 'json',
+        newValue: 'json',
+        operator: 'string',
+        time: 'unsigned'
+    }, { autoInc: true })
+
+    ctx.model.extend('w-repeat-image', {
+        hash: 'string',
+        storage: 'string',
+        b64: 'text',
+        path: 'string',
+        thumbnail: 'text',
+        text: 'text',
+        phash: 'string',
+        size: 'unsigned',
+        createTime: 'unsigned'
+    }, {
+        primary: 'hash'
+    })
+
     // Tesseract 初始化
 
     let tesseractWorker: Tesseract.Worker = undefined
@@ -297,9 +679,26 @@ export async function apply(ctx: Context, config: Config) {
         initJieba()
     ])
 
+    // 加载数据库中的群复读设置
+
+    const guildSettings: Record<string, RepeatSettings> = {}
+    const loadGuildSettings = async () => {
+        for (const { gid, settings } of await ctx.database.get('w-repeat-settings', {})) {
+            try {
+                // 补全新增的设置项
+                guildSettings[gid] = RepeatSettings(settings)
+            }
+            catch (error) {
+                ctx.logger.warn('Invalid settings of %s: %o', gid, error)
+            }
+        }
+    }
+
+    await loadGuildSettings()
+
     // 工具函数
     // 配置
-    const getGuildSettings = (gid: string) => config.guildSettings[gid] ?? config.globalSettings
+    const getGuildSettings = (gid: string) => guildSettings[gid] ?? config.guildSettings[gid] ?? config.globalSettings
 
     // String
     const ellipsis = (s: string, maxLength: number): string => {
@@ -345,16 +744,14 @@ export async function apply(ctx: Context, config: Config) {
             return dict
         }, {})
 
+    const chunk = <T>(xs: T[], size: number): T[][] =>
+        Array.from({ length: Math.ceil(xs.length / size) }, (_, i) => xs.slice(i * size, (i + 1) * size))
+
     const elem = <T, U extends T>(x: T, xs: U[]): x is U => xs.includes(x as any)
 
     const countAndSortBy = <T extends {}, K extends keyof any>(xs: T[], key: (x: T) => K | K[]) =>
         Object.entries(countBy(xs, key)).sort(([, count1 ], [, count2 ]) => count2 - count1)
 
-    const exclude = <T>(xs: T[], ys: T[]): T[] => {
-        const yset = new Set(ys)
-        return xs.filter(x => ! yset.has(x))
-    }
-
     // Dict
     const pick = <T extends {}, K extends keyof T>(x: T, keys: K[]): Pick<T, K> =>
         Object.fromEntries(Object.entries(x).filter(([ k ]) => keys.includes(k as any))) as any
@@ -374,25 +771,6 @@ export async function apply(ctx: Context, config: Config) {
         o[k] ++
     }
 
-    // Promise
-    const unzipPromise = async <T, U>(p: Promise<readonly [T, U][]>) => {
-        const xs: T[] = [], ys: U[] = []
-        for (const [ x, y ] of await p) {
-            xs.push(x)
-            ys.push(y)
-        }
-        return [ xs, ys ] as const
-    }
-
-    // Date
-    const getDaysOfMonth = (date: Dayjs = dayjs()) => {
-        const days: string[] = []
-        const month = date.get('month')
-        for (let day = date.startOf('month'); day.get('month') === month; day = day.add(1, 'day'))
-            days.push(day.format('DD'))
-        return days
-    }
-
     const removeUndefined = <const T>(x: T): T => {
         for (const k in x) if (x[k] === undefined) delete x[k]
         return x
@@ -412,6 +790,19 @@ export async function apply(ctx: Context, config: Config) {
         return member ? (member.nick || member.name || member.user.name || member.user.id) : uid
     }
 
+    // 通过对应平台的机器人获取群名，获取失败时返回群号
+    const getGuildName = async (gid: string) => {
+        const [ platform, guildId ] = splitWithLimit(gid, ':', 2)
+        const bot = ctx.bots.find(bot => bot.platform === platform)
+        if (! bot) return gid
+        try {
+            return (await bot.getGuild(guildId)).name || gid
+        }
+        catch {
+            return gid
+        }
+    }
+
     // Command
     const requireList = (): Argv.OptionConfig => ({
         conflictsWith: { option: 'list', value: false }
@@ -458,184 +849,1494 @@ export async function apply(ctx: Context, config: Config) {
 
     const $inc = (expr: $.Expr) => $.add(expr, 1)
 
-    // Stream
-    const streamToBuffer = async (stream: ReadableStream<Uint8Array>): Promise<Buffer> => {
-        const buffers: Uint8Array[] = []
-        for await (const data of stream) buffers.push(data)
-        return Buffer.concat(buffers)
+    // 查询语句
+    type RecordQuery = (row: Row<RepeatRecord>) => $.Expr<boolean>
+
+    interface RecordQueryValue {
+        type: 'string' | 'regex' | 'user' | 'word'
+        text: string
+        flags?: string
+        at: number
     }
 
-    // Repeat
-    const isSameImages = (images1: RepeatImage[], images2: RepeatImage[]): boolean =>
-            ! new Set([ ...images1, ...images2 ]).has(null)
-        &&  images1.length === images2.length
-        &&  images1.every((b1, i) => b1.b64 === images2[i].b64)
+    interface RecordQueryField {
+        flag?: RecordQuery
+        compare: (op: string, value: RecordQueryValue, opAt: number) => RecordQuery
+    }
 
-    const isSameMessage = (message1: RepeatMessage, message2: RepeatMessage) =>
-            message1 && message2
-        &&  message1.content === message2.content
-        &&  isSameImages(message1.images ?? [], message2.images ?? [])
+    const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 
-    const updateImageText = async (rec: RepeatRecord | RepeatQueuedRecord) => {
-        const { images } = rec
+    const parseRecordQuery = (query: string, platform?: string): RecordQuery => {
+        let pos = 0
 
-        await Promise.all(images.filter(x => x !== null).map(async ({ b64 }, i) => {
-            const res = await tesseractWorker.recognize(Buffer.from(b64, 'base64'))
-            const { text } = res.data
-            images[i].text = text
-        }))
+        const fail = (message: string, at = pos): never => {
+            throw new SessionError(`查询语句第 ${at + 1} 个字符处有误：${message}`)
+        }
 
-        if ('id' in rec) await ctx.database.set('w-repeat-record', { id: rec.id }, { images })
-    }
+        const skipSpaces = () => {
+            while (pos < query.length && /\s/.test(query[pos])) pos ++
+        }
 
-    const updateWords = async (rec: RepeatRecord | RepeatQueuedRecord) => {
-        const text = h.transform(
-            rec.content.replace(/@__KOISHI_IMG__@/g, ''),
-            el => el.type === 'text' ? el.toString() : ''
-        )
-        const words = rec.words = jieba
-            .tag(text)
+        const peekWord = () => {
+            skipSpaces()
+            return /^[a-zA-Z_]+/.exec(query.slice(pos))?.[0]
+        }
 
-        if ('id' in rec) await ctx.database.set('w-repeat-record', { id: rec.id }, { words })
+        const eat = (token: string) => {
+            skipSpaces()
+            if (! query.startsWith(token, pos)) return false
+            pos += token.length
+            return true
+        }
 
-        return words
-    }
+        const eatKeyword = (keyword: string) => {
+            const word = peekWord()
+            if (word?.toLowerCase() !== keyword) return false
+            pos += word.length
+            return true
+        }
 
-    const createCurrentRec = (gid: string): RepeatQueuedRecord => ({
-        gid,
-        content: undefined,
-        images: undefined,
-        quote: undefined,
-        senders: undefined,
-        startTime: undefined,
-        endTime: undefined,
-        interrupter: undefined,
-        suspensions: [],
-        unrelatedCount: 0
-    })
+        const parseDelimited = (delimiter: string, keepEscape: boolean) => {
+            const at = pos ++
+            let text = ''
+            while (pos < query.length && query[pos] !== delimiter) {
+                if (query[pos] === '\\' && pos + 1 < query.length) {
+                    if (keepEscape) text += query[pos]
+                    pos ++
+                }
+                text += query[pos ++]
+            }
+            if (pos >= query.length) fail(`缺少结束的 ${delimiter}`, at)
+            pos ++
+            return text
+        }
 
-    const updateRecQuote = (session: Session, rec: RepeatQueuedRecord) => {
-        if (! session.quote) return
-        if (! rec.quote) {
-            rec.quote = {
-                valid: true,
-                ...pick(session.quote, [ 'id', 'content' ])
+        const parseValue = (): RecordQueryValue => {
+            skipSpaces()
+            const at = pos
+            const rest = query.slice(pos)
+
+            if (rest[0] === '"' || rest[0] === "'") return { type: 'string', text: parseDelimited(rest[0], false), at }
+
+            if (rest[0] === '/') {
+                const text = parseDelimited('/', true)
+                const [ flags ] = /^[a-z]*/.exec(query.slice(pos))
+                pos += flags.length
+                try {
+                    new RegExp(text, flags)
+                }
+                catch {
+                    fail(`'/${text}/${flags}' 不是合法的正则表达式`, at)
+                }
+                return { type: 'regex', text, flags, at }
             }
-            return
+
+            const atEl = /^<at\s+id=(["'])(.*?)\1\s*\/>/.exec(rest)
+            if (atEl) {
+                pos += atEl[0].length
+                return { type: 'user', text: atEl[2], at }
+            }
+
+            const word = /^[^\s()]+/.exec(rest)?.[0]
+            if (! word) fail('缺少值')
+            pos += word.length
+            return word.startsWith('@')
+                ? { type: 'user', text: word.slice(1), at }
+                : { type: 'word', text: word, at }
         }
-        if (! rec.quote.valid) return
-        if (rec.quote.id === session.quote.id) return
-        rec.quote = {
-            valid: false
+
+        const compareExprs = {
+            '>=': $.gte,
+            '<=': $.lte,
+            '>': $.gt,
+            '<': $.lt,
+            '=': $.eq,
+            ':': $.eq,
+            '!=': $.ne
+        } as const
+
+        const checkOp = <O extends string>(op: string, ops: readonly O[], opAt: number): O => {
+            if (! (ops as readonly string[]).includes(op)) fail(`此字段不支持运算符 '${op}'，可用的运算符有 ${ops.join(' ')}`, opAt)
+            return op as O
         }
-    }
 
-    const unescapeMessage = (
-        message: RepeatMessage,
-        {
-            allowImage = true,
-            allowFace = true
-        }: {
-            allowImage?: boolean,
-            allowFace?: boolean
-        } = {}
-    ): string => {
-        let imageIdx = 0
-        let content = message.content.replace(
-            /@__KOISHI_IMG__@/g,
-            () => {
-                const image = message.images[imageIdx ++]
-                return allowImage
-                    ? h.img('data:image/png;base64,' + image.b64).toString()
-                    : `[图片${ image.text ? ': ' + image.text.replace(/\s+/g, ' ') : '' }]`
+        const numberField = (getExpr: (row: Row<RepeatRecord>) => $.Expr<number>, flag?: RecordQuery): RecordQueryField => ({
+            flag,
+            compare: (op, value, opAt) => {
+                const validOp = checkOp(op, [ '>=', '<=', '>', '<', '=', ':', '!=' ] as const, opAt)
+                const n = Number(value.text)
+                if (value.type !== 'word' || Number.isNaN(n)) fail(`'${value.text}' 不是数字`, value.at)
+                return row => compareExprs[validOp](getExpr(row), n)
             }
-        )
-        content = h.transform(content, {
-            face: allowFace ? undefined : () => '[表情]'
         })
-        return content
-    }
 
-    // 复读中间件
-    const runtimes: Record<string, RepeatRuntime> = {}
-    ctx.middleware(async (session, next) => {
-        // 只处理群内消息
-        const { content: originalContent, gid, uid } = session
-        if (! session.guildId) return next()
+        const timeField = (getExpr: (row: Row<RepeatRecord>) => $.Expr<number>): RecordQueryField => ({
+            compare: (op, value, opAt) => {
+                const validOp = checkOp(op, [ '>=', '<=', '>', '<', '=', ':', '!=' ] as const, opAt)
+                const date = dayjs(value.text)
+                if (value.type === 'regex' || value.type === 'user' || ! date.isValid())
+                    fail(`'${value.text}' 不是有效的时间`, value.at)
+                return row => compareExprs[validOp](getExpr(row), + date)
+            }
+        })
 
-        // 依次检查群和全局是否启用复读
-        const settings = getGuildSettings(gid)
-        if (gid in config.guildSettings) {
-            if (! config.guildSettings[gid]) return next()
+        const toUid = (value: RecordQueryValue) => {
+            if (value.type === 'regex') fail('此字段需要用户', value.at)
+            if (value.text.includes(':')) return value.text
+            if (! platform) fail(`无法确定用户 '${value.text}' 所在的平台，请使用 平台:用户 的格式`, value.at)
+            return `${platform}:${value.text}`
         }
-        else if (! settings.doWrite) return next()
 
-        // 过滤内容黑名单
-        if (settings.repeatBlacklist.some(re => new RegExp(re).test(originalContent)))
-            return next()
+        const userField = (getExpr: (row: Row<RepeatRecord>, uid: string) => $.Expr<boolean>): RecordQueryField => ({
+            compare: (op, value, opAt) => {
+                const validOp = checkOp(op, [ '=', ':', '!=' ] as const, opAt)
+                const uid = toUid(value)
+                return validOp === '!='
+                    ? row => $.not(getExpr(row, uid))
+                    : row => getExpr(row, uid)
+            }
+        })
 
-        // 解析消息，处理图片
-        const imageSrcs: string[] = []
-        const content = h
-            .parse(originalContent)
-            .map(el => {
-                if (settings.doProceedImage && el.type === 'img') {
-                    const src = el.attrs.src as string
-                    imageSrcs.push(src)
-                    return '@__KOISHI_IMG__@'
+        const fields: Record<string, RecordQueryField> = {
+            id: numberField(row => row.id),
+            count: numberField(row => $.length(row.senders)),
+            distinct: numberField(row => row.distinctCount),
+            image: numberField(row => $.length(row.images), row => $.gt($.length(row.images), 0)),
+            suspended: numberField(row => $.length(row.suspensions), row => $.gt($.length(row.suspensions), 0)),
+            start: timeField(row => row.startTime),
+            end: timeField(row => row.endTime),
+            starter: userField((row, uid) => $.eq($.get(row.senders, 0), uid)),
+            repeater: userField((row, uid) => $.in(uid, row.senders)),
+            interrupter: userField((row, uid) => $.eq(row.interrupter, uid)),
+            gid: {
+                compare: (op, value, opAt) => {
+                    const validOp = checkOp(op, [ '=', ':', '!=' ] as const, opAt)
+                    if (value.type === 'regex') fail('此字段需要群号', value.at)
+                    return row => compareExprs[validOp](row.gid, value.text)
                 }
-                return el.toString()
-            })
-            .join('')
-        const images: RepeatImage[] = await Promise.all(imageSrcs.map(async src => {
-            try {
-                const res = await fetch(src)
-                const buffer = await streamToBuffer(res.body)
-                return {
-                    b64: buffer.toString('base64'),
-                    text: ''
+            },
+            content: {
+                compare: (op, value, opAt) => {
+                    const validOp = checkOp(op, [ '~', ':', '=', '!=' ] as const, opAt)
+                    const { text } = value
+                    if (validOp === '~') return row => $.regex(row.content, text, value.flags)
+                    if (validOp === ':') return row => $.regex(row.content, escapeRegExp(text))
+                    return row => compareExprs[validOp](row.content, text)
                 }
             }
-            catch (err) {
-                ctx.logger.error('Failed download image <%s>, %o', src, err)
-                return null
+        }
+
+        const parsePrimary = (): RecordQuery => {
+            if (eat('(')) {
+                const inner = parseOr()
+                if (! eat(')')) fail('缺少右括号')
+                return inner
             }
-        }))
 
-        // 定义当前消息：内容和图片
-        const thisMessage: RepeatMessage = { content, images }
+            const fieldAt = pos
+            const name = peekWord()
+            if (! name) fail(pos < query.length ? `意外的字符 '${query[pos]}'` : '查询语句不完整')
+            pos += name.length
+            const field = fields[name.toLowerCase()]
+            if (! field) fail(`未知字段 '${name}'，可用的字段有 ${Object.keys(fields).join(', ')}`, fieldAt)
+
+            skipSpaces()
+            const opAt = pos
+            const op = /^(>=|<=|!=|>|<|=|:|~)/.exec(query.slice(pos))?.[0]
+            if (! op) return field.flag ?? fail(`字段 '${name}' 缺少运算符`)
+            pos += op.length
+            return field.compare(op, parseValue(), opAt)
+        }
 
-        // 获取本群复读运行时，若无则创建
-        const runtime = runtimes[gid] ??= {
-            currentRec: undefined,
-            queuedRecs: [],
-            suspendedRecs: []
+        const parseNot = (): RecordQuery => {
+            if (! eatKeyword('not')) return parsePrimary()
+            const inner = parseNot()
+            return row => $.not(inner(row))
         }
-        let { currentRec } = runtime
 
-        // 判断当前消息是否为复读（即和当前复读内容相同）
-        const isRepeating = isSameMessage(thisMessage, currentRec)
+        const parseBinary = (keyword: 'and' | 'or', parseOperand: () => RecordQuery, combine: typeof $.and): RecordQuery => {
+            const operands = [ parseOperand() ]
+            while (eatKeyword(keyword)) operands.push(parseOperand())
+            return operands.length === 1
+                ? operands[0]
+                : row => combine(...operands.map(operand => operand(row)))
+        }
 
-        // 处理某类复读
-        const procRecs = async <K extends 'suspendedRecs' | 'queuedRecs'>(
-            recsName: K,
-            onSame: (rec: RepeatRuntime[K][number]) => Promise<void>
-        ) => {
-            await Promise.all(runtime[recsName].map(async (rec: RepeatRuntime[K][number]) => {
-                // 当前消息与挂起复读内容相同
-                if (isSameMessage(thisMessage, rec)) {
-                    // 讲当前用户添加到复读发送者（暂不区分挂起状态、未激活状态下的发送者）
-                    rec.senders.push(uid)
-                    // 更新回复
-                    updateRecQuote(session, rec)
-                    // 重置无关消息计数器
-                    rec.unrelatedCount = 0
-                    // 调用相同消息处理函数
-                    await onSame(rec)
-                }
-                else {
-                    // 增加无关消息计数器
-                    const count = ++ rec.unrelatedCount
+        const parseAnd = () => parseBinary('and', parseNot, $.and)
+        const parseOr = (): RecordQuery => parseBinary('or', parseAnd, $.or)
+
+        const result = parseOr()
+        skipSpaces()
+        if (pos < query.length) fail(`意外的字符 '${query[pos]}'`)
+        return result
+    }
+
+    // 同时更新用户在所有群和在本群的复读数据
+    const updateUser = (
+        gid: string,
+        uid: string,
+        update: (row: Row<RepeatUser>) => Partial<Record<Exclude<keyof RepeatUser, 'uid'>, $.Expr<number>>>
+    ) => Promise.all([
+        ctx.database.upsert('w-repeat-user', row => [{ uid, ...update(row) }]),
+        ctx.database.upsert('w-repeat-guild-user', row => [{ gid, uid, ...update(row) }])
+    ])
+
+    // 累加用户复读数据，用于合并群或导入数据
+    const addUserCounters = (row: Row<RepeatUser>, user: RepeatUser) => ({
+        repeatTime: $.add(row.repeatTime, user.repeatTime),
+        repeatCount: $.add(row.repeatCount, user.repeatCount),
+        beRepeatedTime: $.add(row.beRepeatedTime, user.beRepeatedTime),
+        beRepeatedCount: $.add(row.beRepeatedCount, user.beRepeatedCount),
+        interruptTime: $.add(row.interruptTime, user.interruptTime)
+    })
+
+    // 扣除用户复读数据，用于删除复读记录，最多减到 0
+    const subUserCounters = (row: Row<RepeatUser>, user: RepeatUser) => {
+        const sub = (expr: $.Expr<number>, n: number) => $.if($.gt(expr, n), $.sub(expr, n), 0)
+        return {
+            repeatTime: sub(row.repeatTime, user.repeatTime),
+            repeatCount: sub(row.repeatCount, user.repeatCount),
+            beRepeatedTime: sub(row.beRepeatedTime, user.beRepeatedTime),
+            beRepeatedCount: sub(row.beRepeatedCount, user.beRepeatedCount),
+            interruptTime: sub(row.interruptTime, user.interruptTime)
+        }
+    }
+
+    // 根据复读记录统计用户在所有群和在各群的复读数据
+    const countUserStats = (recs: Pick<RepeatRecord, 'gid' | 'senders' | 'interrupter'>[]) => {
+        const users: Record<string, RepeatUser> = {}
+        const guildUsers: Record<string, RepeatGuildUser> = {}
+        const createUser = (uid: string): RepeatUser => ({
+            uid,
+            repeatTime: 0,
+            repeatCount: 0,
+            beRepeatedTime: 0,
+            beRepeatedCount: 0,
+            interruptTime: 0
+        })
+        // 获取用户在所有群和在本群的复读数据
+        const getUsers = (gid: string, uid: string): RepeatUser[] => [
+            users[uid] ??= createUser(uid),
+            guildUsers[`${gid}#${uid}`] ??= { gid, ...createUser(uid) }
+        ]
+        recs.forEach(({ gid, senders: allSenders, interrupter }) => {
+            // 按群设置过滤发送者，与中间件保持一致
+            const senders = getCountedSenders(allSenders, getGuildSettings(gid))
+            getUsers(gid, senders[0]).forEach(starter => {
+                starter.beRepeatedTime ++
+                starter.beRepeatedCount += senders.length - 1
+            })
+
+            const counted: Record<string, boolean> = {}
+            senders.slice(1).forEach(uid => {
+                const isFirst = ! counted[uid]
+                counted[uid] = true
+                getUsers(gid, uid).forEach(user => {
+                    user.repeatCount ++
+                    if (isFirst) user.repeatTime ++
+                })
+            })
+
+            if (interrupter) getUsers(gid, interrupter).forEach(user => user.interruptTime ++)
+        })
+        return { users: Object.values(users), guildUsers: Object.values(guildUsers) }
+    }
+
+    const regenUserTables = async () => {
+        await Promise.all([
+            ctx.database.remove('w-repeat-user', {}),
+            ctx.database.remove('w-repeat-guild-user', {})
+        ])
+        const recs = await ctx.database.get('w-repeat-record', {}, [ 'id', 'gid', 'senders', 'interrupter', 'distinctCount' ])
+        const { users, guildUsers } = countUserStats(recs)
+        // 补全旧记录的不同发送者数
+        const recsWithoutDistinct = recs.filter(rec => rec.distinctCount == null)
+        const [ userResult, guildUserResult ] = await Promise.all([
+            ctx.database.upsert('w-repeat-user', () => users),
+            ctx.database.upsert('w-repeat-guild-user', () => guildUsers),
+            recsWithoutDistinct.length
+                ? ctx.database.upsert('w-repeat-record', recsWithoutDistinct.map(({ id, senders }) => ({
+                    id,
+                    distinctCount: new Set(senders).size
+                })))
+                : undefined
+        ])
+        return [ userResult, guildUserResult ]
+    }
+
+    const filterRecords = (row: Row<RepeatRecord>, filter: RepeatRecordFilter) => $.query(row, {
+        gid: filter.gid ?? {},
+        ...parseDuration(filter.duration ?? 'all')
+    }, $.and(
+        filter.content
+            ? $.regex(row.content, filter.content)
+            : true,
+        filter.starter
+            ? $.eq($.get(row.senders, 0), filter.starter)
+            : true,
+        filter.repeater
+            ? $.in(filter.repeater, row.senders)
+            : true,
+        filter.interrupter
+            ? $.eq(row.interrupter, filter.interrupter)
+            : true,
+        filter.image
+            ? $.gt($.length(row.images), 0)
+            : true,
+        filter.minDistinct
+            ? $.gte(row.distinctCount, filter.minDistinct)
+            : true,
+        filter.query
+            ? parseRecordQuery(filter.query, filter.platform)(row)
+            : true
+    ))
+
+    // Image
+    const PHASH_WIDTH = 9
+    const PHASH_HEIGHT = 8
+
+    const getImagePhash = async (buffer: Buffer): Promise<string> => {
+        const [ image, canvas ] = await Promise.all([
+            ctx.canvas.loadImage(buffer),
+            ctx.canvas.createCanvas(PHASH_WIDTH, PHASH_HEIGHT)
+        ])
+        try {
+            // 缩放为 9 * 8 的灰度图，比较每行相邻像素的亮度得到 64 位哈希
+            const context = canvas.getContext('2d')
+            context.drawImage(image, 0, 0, PHASH_WIDTH, PHASH_HEIGHT)
+            const { data } = await context.getImageData(0, 0, PHASH_WIDTH, PHASH_HEIGHT)
+            const gray = (x: number, y: number) => {
+                const i = (y * PHASH_WIDTH + x) * 4
+                return data[i] * .299 + data[i + 1] * .587 + data[i + 2] * .114
+            }
+            let hash = 0n
+            for (let y = 0; y < PHASH_HEIGHT; y ++)
+                for (let x = 0; x < PHASH_WIDTH - 1; x ++)
+                    hash = (hash << 1n) | (gray(x, y) > gray(x + 1, y) ? 1n : 0n)
+            return hash.toString(16).padStart(16, '0')
+        }
+        finally {
+            await Promise.all([ image.dispose(), canvas.dispose() ])
+        }
+    }
+
+    const tryGetImagePhash = async (buffer: Buffer): Promise<string | undefined> => {
+        if (! ctx.canvas) return undefined
+        try {
+            return await getImagePhash(buffer)
+        }
+        catch (err) {
+            ctx.logger.warn('Failed to compute image phash, %o', err)
+            return undefined
+        }
+    }
+
+    const getImageHash = (buffer: Buffer) => createHash('sha256').update(buffer).digest('hex')
+
+    // 图片下载
+    // 图片的身份属性，按优先级排列
+    const IMAGE_KEY_ATTRS = [ 'md5', 'fileUnique', 'file', 'fileId' ]
+
+    // 各类图片的文件头，可以有多段，每段为 [ 偏移, 字节 ]
+    const IMAGE_SIGNATURES: [ string, [ number, number[] ][] ][] = [
+        [ 'image/png', [ [ 0, [ 0x89, 0x50, 0x4E, 0x47 ] ] ] ],
+        [ 'image/jpeg', [ [ 0, [ 0xFF, 0xD8, 0xFF ] ] ] ],
+        [ 'image/gif', [ [ 0, [ 0x47, 0x49, 0x46, 0x38 ] ] ] ],
+        [ 'image/bmp', [ [ 0, [ 0x42, 0x4D ] ] ] ],
+        // RIFF 容器还可能是 WAV、AVI 等，需要检查格式标识
+        [ 'image/webp', [ [ 0, [ 0x52, 0x49, 0x46, 0x46 ] ], [ 8, [ 0x57, 0x45, 0x42, 0x50 ] ] ] ]
+    ]
+
+    const sniffImageType = (buffer: Buffer): string | undefined => IMAGE_SIGNATURES
+        .find(([, segments ]) => segments.every(([ offset, bytes ]) =>
+            bytes.every((byte, i) => buffer[offset + i] === byte)
+        ))?.[0]
+
+    // 不值得重试的下载错误
+    class ImageRejectedError extends Error {}
+
+    const downloadImageOnce = async (src: string): Promise<Buffer> => {
+        const maxBytes = config.imageDownloadMaxSize * 1024
+        const res = await fetch(src, { signal: AbortSignal.timeout(config.imageDownloadTimeout) })
+        if (! res.ok) throw new Error(`HTTP ${res.status}`)
+        if (Number(res.headers.get('content-length')) > maxBytes) throw new ImageRejectedError('Image is too large')
+
+        // 边读边计数，超过上限时立即中止
+        const buffers: Uint8Array[] = []
+        let size = 0
+        for await (const data of res.body) {
+            size += data.length
+            if (size > maxBytes) throw new ImageRejectedError('Image is too large')
+            buffers.push(data)
+        }
+        const buffer = Buffer.concat(buffers)
+        if (! sniffImageType(buffer)) throw new ImageRejectedError('Not an image')
+        return buffer
+    }
+
+    const downloadImage = async (src: string): Promise<Buffer> => {
+        for (let attempt = 0; ; attempt ++) {
+            try {
+                return await downloadImageOnce(src)
+            }
+            catch (err) {
+                if (err instanceof ImageRejectedError || attempt >= config.imageDownloadRetries) throw err
+            }
+        }
+    }
+
+    // 每个群的下载并发数
+    const downloadSlots: Record<string, { active: number, waiting: (() => void)[] }> = {}
+
+    const withDownloadSlot = async <T>(gid: string, fn: () => Promise<T>): Promise<T> => {
+        const slot = downloadSlots[gid] ??= { active: 0, waiting: [] }
+        if (slot.active >= config.imageDownloadConcurrency) await new Promise<void>(resolve => slot.waiting.push(resolve))
+        else slot.active ++
+        try {
+            return await fn()
+        }
+        finally {
+            // 直接把名额交给等待中的下载
+            const next = slot.waiting.shift()
+            if (next) next()
+            else slot.active --
+        }
+    }
+
+    // 未完成的下载，完成后会填充图片的哈希和内容
+    const imageDownloads = new WeakMap<RepeatImage, Promise<void>>()
+
+    const startImageDownload = (gid: string, el: h): RepeatImage => {
+        const src = el.attrs.src as string
+        const image: RepeatImage = { quickKey: getElementKey(el, IMAGE_KEY_ATTRS), src }
+        const download = withDownloadSlot(gid, () => downloadImage(src))
+            .then(async buffer => {
+                Object.assign(image, {
+                    hash: getImageHash(buffer),
+                    b64: buffer.toString('base64'),
+                    text: '',
+                    phash: await tryGetImagePhash(buffer)
+                })
+            })
+            .catch(err => {
+                ctx.logger.warn('Failed to download image <%s>, %o', src, err)
+            })
+            .finally(() => imageDownloads.delete(image))
+        imageDownloads.set(image, download)
+        return image
+    }
+
+    const waitForImages = async (images: RepeatImage[] = []) => {
+        await Promise.all(images.map(image => image && imageDownloads.get(image)))
+    }
+
+    // 图片存储后端
+    interface ImageStorageBackend {
+        save(hash: string, buffer: Buffer): Promise<Pick<RepeatImageData, 'b64' | 'path'>>
+        // 图片丢失时返回 undefined
+        load(data: Pick<RepeatImageData, 'b64' | 'path'>): Promise<Buffer | undefined>
+    }
+
+    const imageDir = resolve(ctx.baseDir, 'data/w-repeat/images')
+
+    const imageStorages: Record<RepeatImageStorage, ImageStorageBackend> = {
+        database: {
+            save: async (_, buffer) => ({ b64: buffer.toString('base64'), path: null }),
+            load: async ({ b64 }) => b64 ? Buffer.from(b64, 'base64') : undefined
+        },
+        file: {
+            save: async (hash, buffer) => {
+                await mkdir(imageDir, { recursive: true })
+                await writeFile(resolve(imageDir, hash), buffer)
+                return { b64: null, path: hash }
+            },
+            load: async ({ path }) => path ? readFile(resolve(imageDir, path)).catch(() => undefined) : undefined
+        },
+        assets: {
+            save: async (hash, buffer) => ({
+                b64: null,
+                path: await ctx.assets.upload(`data:${sniffImageType(buffer) ?? 'image/png'};base64,${buffer.toString('base64')}`, hash)
+            }),
+            load: async ({ path }) => {
+                if (! path) return undefined
+                try {
+                    const res = await fetch(path)
+                    return res.ok ? Buffer.from(await res.arrayBuffer()) : undefined
+                }
+                catch {
+                    return undefined
+                }
+            }
+        }
+    }
+
+    // assets 服务不可用时退回数据库
+    const getImageStorage = (): RepeatImageStorage =>
+        config.imageStorage === 'assets' && ! ctx.assets ? 'database' : config.imageStorage ?? 'database'
+
+    const saveImage = async (hash: string, buffer: Buffer, storage = getImageStorage()) => {
+        try {
+            return { storage, ...await imageStorages[storage].save(hash, buffer) }
+        }
+        catch (err) {
+            ctx.logger.error('Failed to save image %s to %s storage, %o', hash, storage, err)
+            return { storage: 'database' as const, ...await imageStorages.database.save(hash, buffer) }
+        }
+    }
+
+    const loadImage = (data: Pick<RepeatImageData, 'storage' | 'b64' | 'path'>) =>
+        imageStorages[data.storage ?? 'database'].load(data)
+
+    const getThumbnail = async (buffer: Buffer): Promise<string | undefined> => {
+        const { imageThumbnailSize: maxSize } = config
+        if (! maxSize || ! ctx.canvas) return undefined
+        try {
+            const image = await ctx.canvas.loadImage(buffer)
+            const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight))
+            const width = Math.max(1, Math.round(image.naturalWidth * scale))
+            const height = Math.max(1, Math.round(image.naturalHeight * scale))
+            const canvas = await ctx.canvas.createCanvas(width, height)
+            try {
+                canvas.getContext('2d').drawImage(image, 0, 0, width, height)
+                return (await canvas.toBuffer('image/png')).toString('base64')
+            }
+            finally {
+                await Promise.all([ image.dispose(), canvas.dispose() ])
+            }
+        }
+        catch (err) {
+            ctx.logger.warn('Failed to create thumbnail, %o', err)
+            return undefined
+        }
+    }
+
+    // 将图片写入图片表（已存在的不重复写入），返回只包含引用的图片列表
+    const storeImages = async (images: RepeatImage[] = []): Promise<RepeatImage[]> => {
+        const imageDict: Record<string, RepeatImage> = {}
+        images.forEach(image => {
+            if (! image?.b64) return
+            image.hash ??= getImageHash(Buffer.from(image.b64, 'base64'))
+            imageDict[image.hash] = image
+        })
+
+        const hashes = Object.keys(imageDict)
+        if (hashes.length) {
+            const existingHashes = new Set((await ctx.database
+                .get('w-repeat-image', { hash: { $in: hashes } }, [ 'hash' ])
+            ).map(data => data.hash))
+            const now = Date.now()
+            const newData = await Promise.all(hashes
+                .filter(hash => ! existingHashes.has(hash))
+                .map(async (hash): Promise<RepeatImageData> => {
+                    const { b64, text, phash } = imageDict[hash]
+                    const buffer = Buffer.from(b64, 'base64')
+                    return {
+                        hash,
+                        ...await saveImage(hash, buffer),
+                        thumbnail: await getThumbnail(buffer),
+                        text: text ?? '',
+                        phash,
+                        size: buffer.length,
+                        createTime: now
+                    }
+                })
+            )
+            if (newData.length) await ctx.database.upsert('w-repeat-image', newData)
+        }
+
+        // 下载失败的图片只保留快速标识
+        return images.map(image => image && (image.hash ? { hash: image.hash } : pick(image, [ 'quickKey' ])))
+    }
+
+    // 从图片表中补全只有引用的图片，找不到的图片保持原样
+    // mode 为 thumbnail 时优先读取缩略图，为 text 时不读取图片内容；图片文件丢失时退回缩略图
+    const resolveImages = async (
+        images: RepeatImage[] = [],
+        mode: 'full' | 'thumbnail' | 'text' = 'full'
+    ): Promise<RepeatImage[]> => {
+        const hashes = images
+            .filter(image => image?.hash && image.b64 === undefined)
+            .map(image => image.hash)
+        if (! hashes.length) return images
+
+        const dataDict = Object.fromEntries((await ctx.database
+            .get('w-repeat-image', { hash: { $in: hashes } }, mode === 'text'
+                ? [ 'hash', 'text', 'phash' ]
+                : [ 'hash', 'storage', 'b64', 'path', 'thumbnail', 'text', 'phash' ]
+            )
+        ).map(data => [ data.hash, data ]))
+        return Promise.all(images.map(async image => {
+            const data = image?.hash && dataDict[image.hash]
+            if (! data) return image
+            const b64 = mode === 'text'
+                ? undefined
+                : mode === 'thumbnail' && data.thumbnail
+                    ? data.thumbnail
+                    : (await loadImage(data))?.toString('base64') ?? data.thumbnail ?? undefined
+            return { ...image, ...pick(data, [ 'text', 'phash' ]), b64 }
+        }))
+    }
+
+    const getHammingDistance = (hash1: string, hash2: string) => {
+        let diff = BigInt(`0x${hash1}`) ^ BigInt(`0x${hash2}`)
+        let distance = 0
+        for (; diff; diff &= diff - 1n) distance ++
+        return distance
+    }
+
+    // Repeat
+    // 有一方未下载完成时使用快速标识比较
+    const isSameImage = (image1: RepeatImage, image2: RepeatImage, threshold: number): boolean =>
+            (
+                image1.hash && image2.hash ? image1.hash === image2.hash :
+                image1.quickKey && image2.quickKey ? image1.quickKey === image2.quickKey :
+                !! image1.b64 && image1.b64 === image2.b64
+            )
+        ||  threshold > 0 && !! image1.phash && !! image2.phash
+        &&  getHammingDistance(image1.phash, image2.phash) <= threshold
+
+    const isSameImages = (images1: RepeatImage[], images2: RepeatImage[], threshold: number): boolean =>
+            ! new Set([ ...images1, ...images2 ]).has(null)
+        &&  images1.length === images2.length
+        &&  images1.every((image1, i) => isSameImage(image1, images2[i], threshold))
+
+    const isSameAttachments = (attachments1: RepeatAttachment[], attachments2: RepeatAttachment[]): boolean =>
+            attachments1.length === attachments2.length
+        &&  attachments1.every((attachment1, i) =>
+                attachment1.type === attachments2[i].type && attachment1.key === attachments2[i].key
+            )
+
+    const isSameMessage = (message1: RepeatMessage, message2: RepeatMessage, imageHashThreshold = 0) =>
+            message1 && message2
+        &&  (message1.key ?? message1.content) === (message2.key ?? message2.content)
+        &&  isSameImages(message1.images ?? [], message2.images ?? [], imageHashThreshold)
+        &&  isSameAttachments(message1.attachments ?? [], message2.attachments ?? [])
+
+    // 附件
+    // 各类附件的身份属性，按优先级排列
+    const ATTACHMENT_KEY_ATTRS: {
+        [T in Exclude<RepeatAttachmentType, 'message'>]: (keyof RepeatAttachmentAttrs[T] & string)[]
+    } = {
+        'audio': [ 'md5', 'fileUnique', 'fileId', 'file' ],
+        'video': [ 'md5', 'fileUnique', 'fileId', 'file' ],
+        'file': [ 'md5', 'fileUnique', 'fileId', 'file' ],
+        'sticker': [ 'id', 'emojiId', 'key' ],
+        'mface': [ 'emojiId', 'id', 'key' ],
+        'chronocat:marketface': [ 'emojiId', 'key' ]
+    }
+
+    const isMediaAttachmentType = (type: string): type is keyof typeof ATTACHMENT_KEY_ATTRS =>
+        Object.hasOwn(ATTACHMENT_KEY_ATTRS, type)
+
+    const ATTACHMENT_TEXTS: Partial<Record<RepeatAttachmentType, string>> = {
+        'audio': '语音',
+        'video': '视频',
+        'file': '文件',
+        'message': '合并转发'
+    }
+
+    // URL 中随每条消息变化的签名和时效参数，其余查询参数可能用于标识文件（如 fileid），需要保留
+    const VOLATILE_URL_PARAMS = /^(rkey|token|sign|signature|expires?|timestamp|ts|auth_key|x-(amz|oss|cos)-.+)$/i
+
+    const getUrlKey = (url: string) => {
+        try {
+            const { host, pathname, searchParams } = new URL(url)
+            const search = new URLSearchParams([ ...searchParams ]
+                .filter(([ name ]) => ! VOLATILE_URL_PARAMS.test(name))
+                .sort(([ name1 ], [ name2 ]) => name1.localeCompare(name2))
+            ).toString()
+            return `url:${host}${pathname}${search ? '?' + search : ''}`
+        }
+        catch {
+            return `url:${url}`
+        }
+    }
+
+    // 按优先级使用身份属性作为元素标识，都没有时使用去掉签名参数的 URL
+    const getElementKey = (el: h, keyAttrs: string[]) => {
+        const { attrs } = el
+        const keyAttr = keyAttrs.find(name => attrs[name])
+        const url = attrs.src ?? attrs.url
+        return keyAttr ? `${keyAttr}:${attrs[keyAttr]}` : url ? getUrlKey(url) : el.toString()
+    }
+
+    // 将元素转为附件，不是附件时返回 undefined
+    const getAttachment = (el: h): RepeatAttachment | undefined => {
+        const { type, attrs } = el
+        // 合并转发以内容为标识
+        if (type === 'message') return attrs.forward ? {
+            type,
+            key: attrs.id ? `id:${attrs.id}` : `hash:${createHash('sha256').update(el.toString(true)).digest('hex')}`,
+            attrs: pick(attrs, [ 'id' ])
+        } : undefined
+
+        if (! isMediaAttachmentType(type)) return undefined
+        return { type, key: getElementKey(el, ATTACHMENT_KEY_ATTRS[type]), attrs }
+    }
+
+    // 提取消息中的附件，替换为占位符
+    const extractAttachments = (content: string): Pick<RepeatMessage, 'content' | 'attachments'> => {
+        const attachments: RepeatAttachment[] = []
+        content = h
+            .parse(content)
+            .map(el => {
+                const attachment = getAttachment(el)
+                if (! attachment) return el.toString()
+                attachments.push(attachment)
+                return '@__KOISHI_ATTACHMENT__@'
+            })
+            .join('')
+        return { content, attachments }
+    }
+
+    // 消息规范化，按固定顺序执行启用的规范化处理
+    const normalizeContent = (content: string, normalizers: RepeatNormalizer[], selfId: string): string => {
+        if (! normalizers.length) return content
+        const isEnabled = (normalizer: RepeatNormalizer) => normalizers.includes(normalizer)
+
+        // 只处理文本，不改变图片和附件占位符
+        const transformText = (text: string) => text
+            .split(/(@__KOISHI_(?:IMG|ATTACHMENT)__@)/)
+            .map((segment, i) => {
+                if (i % 2) return segment
+                if (isEnabled('full-width')) segment = segment
+                    .replace(/[\uFF01-\uFF5E]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0))
+                    .replace(/\u3000/g, ' ')
+                if (isEnabled('ignore-case')) segment = segment.toLowerCase()
+                if (isEnabled('collapse-whitespace')) segment = segment.replace(/\s+/g, ' ')
+                return segment
+            })
+            .join('')
+
+        let key = h
+            .parse(content)
+            .map(el => {
+                if (el.type === 'text') return h.escape(transformText(el.attrs.content))
+                if (el.type === 'at' && isEnabled('drop-bot-at') && el.attrs.id === selfId) return ''
+                if ((el.type === 'face' || el.type === 'at') && isEnabled('canonical-elements'))
+                    return h(el.type, { id: el.attrs.id }).toString()
+                return el.toString()
+            })
+            .join('')
+
+        if (isEnabled('trim')) key = key.trim()
+        // 占位符本身由标点组成，以图片或附件结尾时不处理
+        if (isEnabled('trailing-punctuation') && ! /@__KOISHI_(IMG|ATTACHMENT)__@$/.test(key)) {
+            // 全是标点的消息（如「？？？」）不处理
+            const stripped = key.replace(/[\p{P}\s]+$/u, '')
+            if (stripped) key = stripped
+        }
+        return key
+    }
+
+    const updateImageText = async (rec: RepeatRecord | RepeatQueuedRecord) => {
+        const images = await resolveImages(rec.images)
+
+        await Promise.all(images.map(async image => {
+            if (! image?.b64) return
+            const res = await tesseractWorker.recognize(Buffer.from(image.b64, 'base64'))
+            const { text } = res.data
+            image.text = text
+            if ('id' in rec && image.hash) await ctx.database.set('w-repeat-image', { hash: image.hash }, { text })
+        }))
+
+        // 旧记录的图片内联在记录中，需要写回记录
+        if ('id' in rec && images.some(image => image && ! image.hash)) await ctx.database.set(
+            'w-repeat-record',
+            { id: rec.id },
+            { images: images.map(image => image?.hash ? { hash: image.hash } : image) }
+        )
+
+        return images
+    }
+
+    const updateWords = async (rec: RepeatRecord | RepeatQueuedRecord) => {
+        const text = h.transform(
+            rec.content.replace(/@__KOISHI_(IMG|ATTACHMENT)__@/g, ''),
+            el => el.type === 'text' ? el.toString() : ''
+        )
+        const words = rec.words = jieba
+            .tag(text)
+
+        if ('id' in rec) await ctx.database.set('w-repeat-record', { id: rec.id }, { words })
+
+        return words
+    }
+
+    // 根据设置判断用户能否加入复读
+    const canJoin = (senders: string[], uid: string, settings: RepeatSettings) =>
+        settings.senderMode === 'distinct' ? ! senders.includes(uid) :
+        settings.senderMode === 'no-consecutive' ? senders.at(- 1) !== uid :
+        true
+
+    // 根据设置过滤复读记录的发送者
+    const getCountedSenders = (senders: string[], settings: RepeatSettings) => senders
+        .reduce<string[]>((counted, uid) => {
+            if (canJoin(counted, uid, settings)) counted.push(uid)
+            return counted
+        }, [])
+
+    // 发起者和打断者在数据库中分组统计，参与者无法按数组元素分组，只能读取发送者列表统计，记录很多时较慢
+    const getTopsWhere = async (query: Query<RepeatRecord>, limit = Infinity): Promise<RepeatTops> => {
+        const selectRecs = () => ctx.database
+            .select('w-repeat-record')
+            .where(query)
+        const toEntries = (rows: { uid: string, count: number }[]) => rows
+            .map(({ uid, count }): [ string, number ] => [ uid, count ])
+
+        const [ starters, interrupters, senderLists ] = await Promise.all([
+            selectRecs()
+                .groupBy({ uid: row => $.get(row.senders, 0) }, { count: row => $.count(row.id) })
+                .orderBy('count', 'desc')
+                .limit(limit)
+                .execute(),
+            selectRecs()
+                // 强制写入的复读没有打断者
+                .where({ interrupter: { $exists: true } })
+                .groupBy({ uid: row => row.interrupter }, { count: row => $.count(row.id) })
+                .orderBy('count', 'desc')
+                .limit(limit)
+                .execute(),
+            selectRecs()
+                .project([ 'senders' ])
+                .execute()
+        ])
+
+        return {
+            repeaters: countAndSortBy(senderLists, rec => rec.senders).slice(0, limit),
+            starters: toEntries(starters),
+            interrupters: toEntries(interrupters)
+        }
+    }
+
+    // 不筛选记录时三种排行都读取用户表，参与次数为加入复读次数与发起复读次数之和
+    const getTopsFromUsers = async (gid: string | undefined, limit: number): Promise<RepeatTops> => {
+        const users = gid
+            ? await ctx.database.get('w-repeat-guild-user', { gid })
+            : await ctx.database.get('w-repeat-user', {})
+        const getTop = (getCount: (user: RepeatUser) => number) => users
+            .map((user): [ string, number ] => [ user.uid, getCount(user) ])
+            .filter(([, count ]) => count > 0)
+            .sort(([, count1 ], [, count2 ]) => count2 - count1)
+            .slice(0, limit)
+        return {
+            repeaters: getTop(user => user.repeatCount + user.beRepeatedTime),
+            starters: getTop(user => user.beRepeatedTime),
+            interrupters: getTop(user => user.interruptTime)
+        }
+    }
+
+    const isUnfiltered = (filter: RepeatRecordFilter) => (filter.duration ?? 'all') === 'all' && ! (
+        filter.content || filter.image || filter.starter || filter.repeater || filter.interrupter || filter.minDistinct || filter.query
+    )
+
+    const getTops = (filter: RepeatRecordFilter, limit = Infinity) => isUnfiltered(filter)
+        ? getTopsFromUsers(filter.gid, limit)
+        : getTopsWhere(row => filterRecords(row, filter), limit)
+
+    // 复读流向矩阵，sendMat[sender][starter].count 为 sender 参与 starter 发起的复读的次数
+    type SendMat = Record<string, Record<string, { count: number }>>
+
+    const getSendMat = (recs: Pick<RepeatRecord, 'senders'>[]): SendMat => {
+        const sendMat: SendMat = {}
+        recs.forEach(rec => {
+            const starter = rec.senders[0]
+            rec.senders.slice(1).forEach(sender => {
+                ((sendMat[sender] ??= {})[starter] ??= { count: 0 }).count ++
+            })
+        })
+        return sendMat
+    }
+
+    // 在复读流向图上计算加权 PageRank，复读视为参与者向发起者投票
+    const getPageRanks = (sendMat: SendMat, damping = .85, maxIteration = 100): Record<string, number> => {
+        const nodes = [ ...new Set(Object.entries(sendMat).flatMap(([ sender, row ]) => [ sender, ...Object.keys(row) ])) ]
+        const nodeNum = nodes.length
+        const outWeights = Object.fromEntries(Object.entries(sendMat).map(([ sender, row ]) => [
+            sender,
+            Object.values(row).reduce((sum, { count }) => sum + count, 0)
+        ]))
+
+        let ranks: Record<string, number> = Object.fromEntries(nodes.map(node => [ node, 1 / nodeNum ]))
+        for (let i = 0; i < maxIteration; i ++) {
+            // 没有出边的节点将分数平均分给所有节点
+            const danglingRank = nodes
+                .filter(node => ! outWeights[node])
+                .reduce((sum, node) => sum + ranks[node], 0)
+            const nextRanks: Record<string, number> = Object.fromEntries(nodes.map(node => [
+                node,
+                (1 - damping) / nodeNum + damping * danglingRank / nodeNum
+            ]))
+            for (const [ sender, row ] of Object.entries(sendMat))
+                for (const [ starter, { count } ] of Object.entries(row))
+                    nextRanks[starter] += damping * ranks[sender] * count / outWeights[sender]
+
+            const delta = nodes.reduce((sum, node) => sum + Math.abs(nextRanks[node] - ranks[node]), 0)
+            ranks = nextRanks
+            if (delta < 1e-8) break
+        }
+        return ranks
+    }
+
+    const countRecords = (filter: RepeatRecordFilter) => ctx.database
+        .select('w-repeat-record')
+        .where(row => filterRecords(row, filter))
+        .execute(row => $.count(row.id))
+
+    // 将复读写入复读记录表，图片写入图片表
+    const writeRec = async (rec: RepeatQueuedRecord, settings: RepeatSettings): Promise<RepeatRecord> => {
+        // 等待图片下载完成
+        await waitForImages(rec.images)
+
+        // 先识别图片中文字和分词，以便一并写入
+        await Promise.all([
+            // 识别图片中文字
+            (settings.enableOcr && tesseractWorker) ? updateImageText(rec) : undefined,
+            // 分词
+            (settings.enableSegmentation && jieba) ? updateWords(rec) : undefined
+        ])
+
+        const written = await ctx.database.create('w-repeat-record', {
+            ...omit(rec, [ 'unrelatedCount' ]),
+            images: await storeImages(rec.images),
+            distinctCount: new Set(rec.senders).size
+        })
+        await updateWordTable(written.gid, written.words)
+        return written
+    }
+
+    // 写入较慢（需要等待图片下载、识别文字），在后台进行，写入失败时返回 undefined
+    const startRecWrite = (rec: RepeatQueuedRecord, settings: RepeatSettings) => writeRec(
+        // 复制写入期间可能变化的列表
+        { ...rec, senders: [ ...rec.senders ], suspensions: [ ...rec.suspensions ] },
+        settings
+    ).catch((err): undefined => {
+        ctx.logger.error('Failed to write record in %s, %o', rec.gid, err)
+        return undefined
+    })
+
+    // 挂起复读对应的后台写入
+    const recordWrites = new WeakMap<RepeatSuspendedRecord, Promise<RepeatRecord | undefined>>()
+
+    // 尚未完成的后台写入，卸载插件时需要等待写入完成
+    const pendingWrites = new Set<Promise<void>>()
+
+    const trackWrite = (writing: Promise<void>) => {
+        pendingWrites.add(writing)
+        writing.finally(() => pendingWrites.delete(writing))
+    }
+
+    // 移除挂起复读对应的复读记录，记录仍在写入时等待写入完成
+    const removeSuspendedRec = async (rec: RepeatSuspendedRecord) => {
+        const { id, gid, words } = await recordWrites.get(rec) ?? rec
+        if (id === undefined) return
+        await Promise.all([
+            ctx.database.remove('w-repeat-record', id),
+            updateWordTable(gid, words, -1)
+        ])
+    }
+
+    // 增量更新分词表，删除记录时 delta 为 -1
+    const updateWordTable = async (gid: string, words: Tag[], delta: 1 | -1 = 1) => {
+        if (! words?.length) return
+        const wordDict: Record<string, number> = {}
+        const incWord = safeInc(wordDict)
+        words.forEach(({ tag, word }) => incWord(`${tag}#${word}`))
+        if (delta > 0) {
+            await ctx.database.upsert('w-repeat-word', row => Object.entries(wordDict).map(([ tagWord, count ]) => {
+                const [ tag, word ] = splitWithLimit(tagWord, '#', 2)
+                return { gid, word, tag, count: $.add(row.count, count) }
+            }))
+            return
+        }
+
+        // 删除时只减少已有的词，且最多减到 0（旧记录的词可能从未计入分词表）
+        const tagWordsByCount: Record<number, string[][]> = {}
+        Object.entries(wordDict).forEach(([ tagWord, count ]) => {
+            (tagWordsByCount[count] ??= []).push(splitWithLimit(tagWord, '#', 2))
+        })
+        await Promise.all(Object.entries(tagWordsByCount).map(([ countText, tagWords ]) => {
+            const count = Number(countText)
+            return ctx.database.set(
+                'w-repeat-word',
+                row => $.and(
+                    $.eq(row.gid, gid),
+                    $.or(...tagWords.map(([ tag, word ]) => $.and($.eq(row.tag, tag), $.eq(row.word, word))))
+                ),
+                row => ({ count: $.if($.gt(row.count, count), $.sub(row.count, count), 0) })
+            )
+        }))
+        await ctx.database.remove('w-repeat-word', { gid, count: { $lte: 0 } })
+    }
+
+    const createCurrentRec = (gid: string): RepeatQueuedRecord => ({
+        gid,
+        content: undefined,
+        key: undefined,
+        images: undefined,
+        attachments: undefined,
+        quote: undefined,
+        senders: undefined,
+        startTime: undefined,
+        endTime: undefined,
+        interrupter: undefined,
+        suspensions: [],
+        slicedSource: undefined,
+        unrelatedCount: 0
+    })
+
+    const updateRecQuote = (session: Session, rec: RepeatQueuedRecord) => {
+        if (! session.quote) return
+        if (! rec.quote) {
+            rec.quote = {
+                valid: true,
+                ...pick(session.quote, [ 'id', 'content' ])
+            }
+            return
+        }
+        if (! rec.quote.valid) return
+        if (rec.quote.id === session.quote.id) return
+        rec.quote = {
+            valid: false
+        }
+    }
+
+    const unescapeMessage = async (
+        message: RepeatMessage,
+        {
+            allowImage = true,
+            allowFace = true,
+            allowAttachment = allowImage,
+            thumbnail = false
+        }: {
+            allowImage?: boolean,
+            allowFace?: boolean,
+            allowAttachment?: boolean,
+            thumbnail?: boolean
+        } = {}
+    ): Promise<string> => {
+        const images = await resolveImages(message.images, ! allowImage ? 'text' : thumbnail ? 'thumbnail' : 'full')
+        let imageIdx = 0
+        let content = message.content.replace(
+            /@__KOISHI_IMG__@/g,
+            () => {
+                const image = images[imageIdx ++]
+                return allowImage && image?.b64 ? h.img(
+                        `data:${sniffImageType(Buffer.from(image.b64, 'base64')) ?? 'image/png'};base64,${image.b64}`
+                    ).toString()
+                    : allowImage && image?.src ? h.img(image.src).toString()
+                    : `[图片${ image?.text ? ': ' + image.text.replace(/\s+/g, ' ') : '' }]`
+            }
+        )
+        let attachmentIdx = 0
+        content = content.replace(
+            /@__KOISHI_ATTACHMENT__@/g,
+            () => {
+                const attachment = message.attachments?.[attachmentIdx ++]
+                if (! attachment) return '[附件]'
+                // 合并转发只保存了标识，无法还原
+                if (attachment.type === 'message') return `[${ATTACHMENT_TEXTS.message}]`
+                const { type, attrs } = attachment
+                return allowAttachment
+                    ? h(type, attrs).toString()
+                    : `[${ATTACHMENT_TEXTS[type] ?? '表情'}${ attrs.title ? ': ' + h.escape(attrs.title) : '' }]`
+            }
+        )
+        content = h.transform(content, {
+            face: allowFace ? undefined : () => '[表情]'
+        })
+        return content
+    }
+
+    // 复读运行时
+    const runtimes: Record<string, RepeatRuntime> = {}
+
+    // 已写入记录表的挂起复读只保存图片引用，其余复读的图片还未存入图片表，需要保留图片内容
+    const toRuntimeSuspendedRec = (rec: RepeatSuspendedRecord): RepeatSuspendedRecord => rec.id === undefined ? rec : {
+        ...rec,
+        images: rec.images?.map(image => image && omit(image, [ 'b64' ]))
+    }
+
+    const saveRuntime = async (gid: string) => {
+        cancelRuntimeSave(gid)
+        const runtime = runtimes[gid]
+        if (! runtime) return
+        const { currentRec, queuedRecs, suspendedRecs, recentMessages } = runtime
+        try {
+            await ctx.database.upsert('w-repeat-runtime', [{
+                gid,
+                currentRec,
+                currentIndex: queuedRecs.indexOf(currentRec as RepeatQueuedRecord),
+                queuedRecs,
+                suspendedRecs: suspendedRecs.map(toRuntimeSuspendedRec),
+                recentMessages,
+                updateTime: Date.now()
+            }])
+        }
+        catch (err) {
+            ctx.logger.error('Failed to save runtime of %s, %o', gid, err)
+        }
+    }
+
+    // 延迟保存运行时，同一群在间隔内的多次修改只写入一次
+    const runtimeSaveTimers: Record<string, () => void> = {}
+    let isDisposing = false
+
+    const cancelRuntimeSave = (gid: string) => {
+        runtimeSaveTimers[gid]?.()
+        delete runtimeSaveTimers[gid]
+    }
+
+    const scheduleRuntimeSave = (gid: string) => {
+        // 卸载插件时不能再设置定时器，立即保存
+        if (! config.runtimeSaveInterval || isDisposing) return saveRuntime(gid)
+        runtimeSaveTimers[gid] ??= ctx.setTimeout(() => {
+            delete runtimeSaveTimers[gid]
+            saveRuntime(gid)
+        }, config.runtimeSaveInterval * 1000)
+    }
+
+    const restoreRuntimes = async () => {
+        const records = await ctx.database.get('w-repeat-runtime', {})
+        const { runtimeMaxAge } = config
+        const minTime = runtimeMaxAge ? Date.now() - runtimeMaxAge * 60 * 1000 : 0
+
+        for (const { gid, currentRec, currentIndex, queuedRecs, suspendedRecs, recentMessages } of records) {
+            // JSON 序列化会丢失当前复读与队列中复读的同一性，需要恢复
+            let restoredCurrentRec = currentIndex >= 0 ? queuedRecs[currentIndex] : currentRec
+            // 过期的单人复读没有价值，直接丢弃；完整复读还未写入记录表，需要保留
+            if (restoredCurrentRec && restoredCurrentRec.senders.length <= 1 && restoredCurrentRec.startTime < minTime)
+                restoredCurrentRec = undefined
+
+            runtimes[gid] = {
+                currentRec: restoredCurrentRec,
+                // 挂起的复读已写入记录表，过期后丢弃不会丢失数据
+                queuedRecs: queuedRecs.filter(rec => rec === restoredCurrentRec || rec.startTime >= minTime),
+                suspendedRecs: suspendedRecs.filter(rec => rec.suspendTime >= minTime),
+                recentMessages: (recentMessages ?? []).filter(message => message.time >= minTime)
+            }
+        }
+
+        if (records.length) ctx.logger.info('Restored %d runtimes.', records.length)
+    }
+
+    await restoreRuntimes()
+
+    // 群用户表由后续版本加入，为空时根据复读记录补全，使排行与复读记录一致
+    const backfillUserTables = async () => {
+        const [ guildUserCount, recCount ] = await Promise.all([
+            ctx.database.select('w-repeat-guild-user').execute(row => $.count(row.uid)),
+            ctx.database.select('w-repeat-record').execute(row => $.count(row.id))
+        ])
+        if (guildUserCount || ! recCount) return
+        const [ , guildUserResult ] = await regenUserTables()
+        ctx.logger.info('Backfilled %d guild users.', guildUserResult.inserted)
+    }
+
+    await backfillUserTables()
+
+    // 复读日历
+    const tzNow = () => dayjs().tz(config.timezone)
+
+    const getCalendarDay = async (gid: string, date: Dayjs): Promise<RepeatDay> => {
+        const {
+            repeaters: [ topRepeater ],
+            starters: [ topStarter ],
+            interrupters: [ topInterrupter ]
+        } = await getTopsWhere({
+            gid,
+            startTime: { $gte: + date.startOf('day'), $lte: + date.endOf('day') }
+        }, 1)
+        return {
+            gid,
+            month: date.format('YYYY-MM'),
+            day: date.format('DD'),
+            topRepeaterId: topRepeater?.[0] ?? null,
+            topRepeaterCount: topRepeater?.[1] ?? null,
+            topStarterId: topStarter?.[0] ?? null,
+            topStarterCount: topStarter?.[1] ?? null,
+            topInterrupterId: topInterrupter?.[0] ?? null,
+            topInterrupterCount: topInterrupter?.[1] ?? null,
+            updateTime: Date.now()
+        }
+    }
+
+    // 汇总所有群在昨天及之前未汇总的日历，首次运行时会补全全部历史
+    const rollupCalendar = async () => {
+        const yesterday = tzNow().subtract(1, 'day').startOf('day')
+        const guilds = await ctx.database
+            .select('w-repeat-record')
+            .groupBy('gid', { firstTime: row => $.min(row.startTime) })
+            .execute()
+
+        let count = 0
+        for (const { gid, firstTime } of guilds) {
+            // 在当天结束前写入的行（包括旧版本按需写入的行）可能不完整，需要重新汇总
+            const finalizedDays = new Set((await ctx.database.get('w-repeat-calendar', { gid }))
+                .filter(({ month, day, updateTime }) => updateTime > + dayjs.tz(`${month}-${day}`, config.timezone).endOf('day'))
+                .map(({ month, day }) => `${month}-${day}`)
+            )
+            for (
+                let date = dayjs(firstTime).tz(config.timezone).startOf('day');
+                ! date.isAfter(yesterday);
+                date = date.add(1, 'day')
+            ) {
+                if (finalizedDays.has(date.format('YYYY-MM-DD'))) continue
+                await ctx.database.upsert('w-repeat-calendar', [ await getCalendarDay(gid, date) ])
+                count ++
+            }
+        }
+
+        if (count) ctx.logger.info('Rolled up %d calendar days.', count)
+    }
+
+    const scheduleCalendarRollup = () => {
+        const now = tzNow()
+        let next = now.startOf('day').add(config.calendarRollupDelay, 'minute')
+        if (! next.isAfter(now)) next = next.add(1, 'day')
+        ctx.setTimeout(async () => {
+            try {
+                await rollupCalendar()
+            }
+            catch (err) {
+                ctx.logger.error('Failed to roll up calendar, %o', err)
+            }
+            scheduleCalendarRollup()
+        }, + next - + now)
+    }
+
+    rollupCalendar()
+        .catch(err => ctx.logger.error('Failed to roll up calendar, %o', err))
+        .finally(scheduleCalendarRollup)
+
+    // 机器人复读策略
+    interface BotRepeatState {
+        lastTime: number
+        history: { key: string, time: number }[]
+        handledRecs: WeakSet<RepeatRecordBase>  // 已经复读或打断过的复读
+    }
+    const botRepeatStates: Record<string, BotRepeatState> = {}
+
+    const getMessageKey = (message: RepeatMessage) => [
+        message.key ?? message.content,
+        ...(message.images ?? []).map(image => image?.hash ?? image?.b64),
+        ...(message.attachments ?? []).map(attachment => `${attachment.type}#${attachment.key}`)
+    ].join('\n')
+
+    const getTps = (rec: RepeatRecordBase, now = Date.now()) =>
+        rec.senders.length / Math.max((now - rec.startTime) / 1000, 1)
+
+    const decideBotAction = (
+        gid: string,
+        rec: RepeatQueuedRecord,
+        settings: RepeatSettings
+    ): 'repeat' | 'interrupt' | undefined => {
+        const state = botRepeatStates[gid] ??= { lastTime: 0, history: [], handledRecs: new WeakSet }
+        if (state.handledRecs.has(rec)) return undefined
+
+        const now = Date.now()
+        if (now - state.lastTime < settings.botRepeatCooldown * 1000) return undefined
+
+        const length = rec.senders.length
+        let action: 'repeat' | 'interrupt' | undefined
+        if (settings.botInterruptCount && length >= settings.botInterruptCount) action = 'interrupt'
+        else {
+            if (getTps(rec, now) < settings.botRepeatMinTps) return undefined
+
+            const key = getMessageKey(rec)
+            state.history = state.history.filter(item => now - item.time < settings.botRepeatDedupWindow * 1000)
+            if (state.history.some(item => item.key === key)) return undefined
+
+            const { botRepeatProbabilities: probabilities } = settings
+            const shouldRepeat = settings.botRepeatStrategy === 'probability'
+                ? Math.random() < (probabilities[Math.min(length, probabilities.length) - 1] ?? 0)
+                : length === settings.repeatCount
+            if (! shouldRepeat) return undefined
+
+            action = 'repeat'
+            state.history.push({ key, time: now })
+        }
+
+        state.lastTime = now
+        state.handledRecs.add(rec)
+        return action
+    }
+
+    // 查找截取来源，即包含当前复读内容的最近消息
+    const findSlicedSource = (runtime: RepeatRuntime, content: string, settings: RepeatSettings) => {
+        if (! settings.slicedSourceWindow || /@__KOISHI_(IMG|ATTACHMENT)__@/.test(content)) return undefined
+        if (content.length < settings.slicedSourceMinLength) return undefined
+        const part = h.parse(content)
+        return runtime.recentMessages.find(message => message.content !== content && isSlicedFrom(part, h.parse(message.content)))
+    }
+
+    // 判断 part 是否截取自 whole：按元素逐个比较，只有首尾的文本可以是原文本的一部分
+    const isSlicedFrom = (part: h[], whole: h[]) => {
+        const last = part.length - 1
+        if (last < 0) return false
+        return whole.some((_, start) => start + last < whole.length && part.every((el, i) => {
+            const target = whole[start + i]
+            if (el.type !== 'text' || target.type !== 'text') return el.toString() === target.toString()
+            const text: string = el.attrs.content
+            const targetText: string = target.attrs.content
+            return last === 0 ? targetText.includes(text)
+                : i === 0 ? targetText.endsWith(text)
+                : i === last ? targetText.startsWith(text)
+                : targetText === text
+        }))
+    }
+
+    // 复读成就
+    const achievements: RepeatAchievement[] = [
+        {
+            key: 'first-repeat',
+            name: '初次复读',
+            description: '第一次参与复读',
+            goal: 1,
+            getProgress: user => user.repeatCount
+        },
+        {
+            key: 'repeat-100',
+            name: '人类本质',
+            description: '参与复读 100 次',
+            goal: 100,
+            getProgress: user => user.repeatCount
+        },
+        {
+            key: 'be-repeated-100',
+            name: '一呼百应',
+            description: '发起的消息被复读 100 次',
+            goal: 100,
+            getProgress: user => user.beRepeatedCount
+        },
+        {
+            key: 'first-interrupt',
+            name: '打断施法',
+            description: '第一次打断复读',
+            goal: 1,
+            getProgress: user => user.interruptTime
+        },
+        {
+            key: 'interrupt-100',
+            name: '复读终结者',
+            description: '打断复读 100 次',
+            goal: 100,
+            getProgress: user => user.interruptTime
+        },
+        {
+            key: 'long-chain',
+            name: '星火燎原',
+            description: '发起一次至少 20 人次的复读',
+            goal: 1,
+            isReachedBy: (rec, uid) => rec.senders[0] === uid && rec.senders.length >= 20
+        },
+        {
+            key: 'resume',
+            name: '死灰复燃',
+            description: '恢复一次被挂起的复读',
+            goal: 1,
+            isReachedBy: (rec, uid) => rec.suspensions.some(suspension => suspension.resumer === uid)
+        },
+        {
+            key: 'image',
+            name: '以图会友',
+            description: '参与一次图片复读',
+            goal: 1,
+            isReachedBy: (rec, uid) => rec.images?.length > 0 && rec.senders.includes(uid)
+        }
+    ]
+
+    // 在复读记录写入后检查相关用户的成就，返回新解锁的成就
+    const checkAchievements = async (rec: RepeatRecord): Promise<RepeatAchievementUnlock[]> => {
+        const { gid } = rec
+        const uids = [ ...new Set([
+            ...rec.senders,
+            rec.interrupter,
+            ...rec.suspensions.map(suspension => suspension.resumer)
+        ].filter(uid => uid)) ]
+
+        const [ users, unlocked ] = await Promise.all([
+            ctx.database.get('w-repeat-guild-user', { gid, uid: { $in: uids } }),
+            ctx.database.get('w-repeat-achievement', { gid, uid: { $in: uids } }, [ 'uid', 'key' ])
+        ])
+        const unlockedKeys = new Set(unlocked.map(({ uid, key }) => `${uid}#${key}`))
+
+        const now = Date.now()
+        const unlocks = uids.flatMap(uid => {
+            const user = users.find(user => user.uid === uid)
+            return achievements
+                .filter(({ key, goal, getProgress, isReachedBy }) => ! unlockedKeys.has(`${uid}#${key}`) && (
+                    getProgress
+                        ? user && getProgress(user) >= goal
+                        : isReachedBy(rec, uid)
+                ))
+                .map(({ key }): RepeatAchievementUnlock => ({ gid, uid, key, unlockTime: now }))
+        })
+
+        if (unlocks.length) await ctx.database.upsert('w-repeat-achievement', unlocks)
+        return unlocks
+    }
+
+    ctx.on('repeat/interrupt', async (session, rec) => {
+        try {
+            const unlocks = await checkAchievements(rec)
+            if (! unlocks.length || ! getGuildSettings(rec.gid).announceAchievement) return
+            await session.send(unlocks
+                .map(({ uid, key }) => {
+                    const { name, description } = achievements.find(achievement => achievement.key === key)
+                    return `${h.at(uid.split(':')[1])} 解锁了复读成就【${name}】：${description}`
+                })
+                .join('\n')
+            )
+        }
+        catch (err) {
+            ctx.logger.error('Failed to check achievements of record %d, %o', rec.id, err)
+        }
+    })
+
+    // 处理一条群消息并更新复读运行时，返回机器人需要立即发送的消息
+    const processMessage = async (
+        session: Session,
+        thisMessage: RepeatMessage,
+        settings: RepeatSettings
+    ): Promise<Fragment | undefined> => {
+        const { gid, uid } = session
+        const { content, key, images, attachments } = thisMessage
+
+        // 获取本群复读运行时，若无则创建
+        const runtime = runtimes[gid] ??= {
+            currentRec: undefined,
+            queuedRecs: [],
+            suspendedRecs: [],
+            recentMessages: []
+        }
+        let { currentRec } = runtime
+
+        // 判断当前消息是否为复读（即和当前复读内容相同）
+        const isRepeating = isSameMessage(thisMessage, currentRec, settings.imageHashThreshold)
+
+        // 处理某类复读
+        const procRecs = async <K extends 'suspendedRecs' | 'queuedRecs'>(
+            recsName: K,
+            onSame: (rec: RepeatRuntime[K][number]) => Promise<void>
+        ) => {
+            await Promise.all(runtime[recsName].map(async (rec: RepeatRuntime[K][number]) => {
+                // 当前消息与挂起复读内容相同
+                if (isSameMessage(thisMessage, rec, settings.imageHashThreshold)) {
+                    // 不能加入复读的用户发送的相同消息既不计入复读，也不算作无关消息
+                    if (! canJoin(rec.senders, uid, settings)) return
+                    // 讲当前用户添加到复读发送者（暂不区分挂起状态、未激活状态下的发送者）
+                    rec.senders.push(uid)
+                    // 更新回复
+                    updateRecQuote(session, rec)
+                    // 重置无关消息计数器
+                    rec.unrelatedCount = 0
+                    // 调用相同消息处理函数
+                    await onSame(rec)
+                }
+                else {
+                    // 增加无关消息计数器
+                    const count = ++ rec.unrelatedCount
                     // 如果无关消息多于阈值，将该复读标记为删除
                     if (count > settings.maxUnrelatedCount) rec.deleted = true
                 }
@@ -644,6 +2345,16 @@ export async function apply(ctx: Context, config: Config) {
             runtime[recsName] = runtime[recsName].filter(rec => ! rec.deleted) as RepeatRuntime[K]
         }
 
+        // 当前复读的发送者是否发生变化，变化时才决定机器人是否复读
+        let isSendersChanged = false
+
+        // 触发加入复读事件，发送者达到 2 人时同时触发开始复读事件
+        const emitJoin = (rec: RepeatQueuedRecord) => {
+            isSendersChanged = true
+            if (rec.senders.length === 2) ctx.emit(session, 'repeat/start', session, rec)
+            ctx.emit(session, 'repeat/join', session, rec)
+        }
+
         let isNewRec = true 
 
         // 处理挂起的复读
@@ -655,24 +2366,32 @@ export async function apply(ctx: Context, config: Config) {
                 // 添加挂起信息到恢复的复读中
                 resumed.suspensions.push({
                     ...pick(suspension, [ 'suspendTime' ]),
-                    resumeTime: Date.now()
+                    resumeTime: Date.now(),
+                    resumer: uid
+                })
+                // 将挂起的复读移出复读记录表（再次被打断时会重新写入），并标记从运行时中删除
+                removeSuspendedRec(rec).catch(err => {
+                    ctx.logger.error('Failed to remove resumed record in %s, %o', gid, err)
                 })
-                // 将挂起的复读移出复读记录表，并标记从运行时中删除
-                await ctx.database.remove('w-repeat-record', resumed.id)
                 rec.deleted = true
 
                 // 用恢复的复读替换当前复读
                 isNewRec = false
                 runtime.currentRec = omit(resumed, [ 'id' ])
+                ctx.emit(session, 'repeat/resume', session, runtime.currentRec)
             }
         })
 
+        // 当前用户能否加入复读（不能加入时消息不计入复读，但也不会打断复读）
+        const isJoining = isRepeating && canJoin(currentRec.senders, uid, settings)
+
         // 如果发生复读
-        if (isRepeating) {
+        if (isJoining) {
             // 将当前用户加入运行时的发送者列表中
             currentRec.senders.push(uid)
             // 更新回复
             updateRecQuote(session, currentRec)
+            emitJoin(currentRec)
         }
         // 当前复读的复读条数，大于 1 则为完整复读
         const repeatCount = currentRec?.senders?.length ?? 0
@@ -680,23 +2399,22 @@ export async function apply(ctx: Context, config: Config) {
         // 如果发生了复读
         if (isRepeating) {
             // 如果是完整复读，则更新用户复读数据
-            if (repeatCount > 1) await Promise.all([
+            if (isJoining && repeatCount > 1) await Promise.all([
                 // 更新当前用户的复读数据
-                ctx.database.upsert('w-repeat-user', row => [{
-                    uid,
-                    repeatCount: $inc(row.repeatTime),
+                updateUser(gid, uid, row => ({
+                    repeatCount: $inc(row.repeatCount),
                     repeatTime: currentRec.senders.slice(0, -1).includes(uid)
                         ? undefined
                         : $inc(row.repeatTime)
-                }]),
+                })),
                 // 更新复读发起者的复读数据
-                ctx.database.upsert('w-repeat-user', row => [{
-                    uid: currentRec.senders[0],
+                // 截取来源的发送者不计为发起者：来源消息本身不在复读中，且排行、查询和流向图都以 senders[0] 为发起者
+                updateUser(gid, currentRec.senders[0], row => ({
                     beRepeatedCount: $inc(row.beRepeatedCount),
                     beRepeatedTime: currentRec.senders.length === 2
                         ? $inc(row.beRepeatedTime)
                         : undefined
-                }])
+                }))
             ])
         }
         else {
@@ -705,6 +2423,7 @@ export async function apply(ctx: Context, config: Config) {
                 // 用新激活的复读替换当前复读
                 isNewRec = false
                 currentRec = runtime.currentRec = rec
+                emitJoin(rec)
             })
 
             // 如果当前复读是完整复读（即发送人数大于 1），则被打断
@@ -713,29 +2432,46 @@ export async function apply(ctx: Context, config: Config) {
                 currentRec.interrupter = uid
                 currentRec.endTime = Date.now()
 
-                const [ old ] = await Promise.all([
-                    // 将运行时作为新复读记录写入复读记录表
-                    ctx.database.create('w-repeat-record', omit(currentRec, [ 'unrelatedCount' ])),
-                    // 更新打断者复读用户数据
-                    ctx.database.upsert('w-repeat-user', row => [{
-                        uid,
-                        interruptTime: $inc(row.interruptTime)
-                    }]),
-                    // 识别图片中文字
-                    (settings.enableOcr && tesseractWorker) ? updateImageText(currentRec) : undefined,
-                    // 分词
-                    (settings.enableSegmentation && jieba) ? updateWords(currentRec) : undefined
-                ])
+                // 将运行时作为新复读记录写入复读记录表
+                const writing = startRecWrite(currentRec, settings)
+
+                // 更新打断者复读用户数据
+                await updateUser(gid, uid, row => ({
+                    interruptTime: $inc(row.interruptTime)
+                }))
 
-                // 如果允许挂起，挂起被打断的复读
-                if (settings.maxUnrelatedCount && old.senders.length > 1) {
-                    runtime.suspendedRecs.unshift({
-                        ...old,
+                // 如果允许挂起，挂起被打断的复读，写入完成后再补全编号和分词
+                let suspended: RepeatSuspendedRecord = undefined
+                if (settings.maxUnrelatedCount) {
+                    suspended = {
+                        ...omit(currentRec, [ 'unrelatedCount', 'deleted' ]),
+                        // 复制列表，避免与当前复读共用
+                        senders: [ ...currentRec.senders ],
+                        suspensions: [ ...currentRec.suspensions ],
+                        id: undefined,
+                        distinctCount: new Set(currentRec.senders).size,
                         unrelatedCount: 1,
                         suspendTime: Date.now(),
                         resumeTime: undefined
-                    })
+                    }
+                    recordWrites.set(suspended, writing)
+                    runtime.suspendedRecs.unshift(suspended)
+                    ctx.emit(session, 'repeat/suspend', session, suspended)
                 }
+
+                trackWrite(writing
+                    .then(async written => {
+                        if (! written) return
+                        if (suspended) {
+                            Object.assign(suspended, pick(written, [ 'id', 'words' ]))
+                            await scheduleRuntimeSave(gid)
+                        }
+                        ctx.emit(session, 'repeat/interrupt', session, written)
+                    })
+                    .catch(err => {
+                        ctx.logger.error('Failed to finish record write in %s, %o', gid, err)
+                    })
+                )
             }
 
             // 如果需要新建当前复读
@@ -744,35 +2480,194 @@ export async function apply(ctx: Context, config: Config) {
                 runtime.currentRec = currentRec = {
                     ...createCurrentRec(gid),
                     content,
+                    key,
                     images,
+                    attachments,
                     startTime: session.timestamp,
                     senders: [ uid ],
+                    slicedSource: findSlicedSource(runtime, content, settings)
                 }
                 updateRecQuote(session, currentRec)
+                isSendersChanged = true
                 // 滚动复读队列
                 runtime.queuedRecs.unshift(currentRec)
             }
         }
 
-        // 机器人复读
-        if (currentRec.senders.length === settings.repeatCount) {
-            return h('as-forward', { level: 'never' }, [
-                currentRec.quote?.valid ? h.quote(currentRec.quote.id) : '',
-                ...h.parse(unescapeMessage(currentRec))
-            ])
+        // 记录最近消息，用于查找截取来源（不记录含图片或附件的消息）
+        if (settings.slicedSourceWindow && ! /@__KOISHI_(IMG|ATTACHMENT)__@/.test(content)) {
+            runtime.recentMessages.unshift({ uid, content, time: session.timestamp })
+            runtime.recentMessages.splice(settings.slicedSourceWindow)
+        }
+
+        // 保存复读运行时
+        await scheduleRuntimeSave(gid)
+
+        // 机器人复读或打断
+        const botAction = isSendersChanged ? decideBotAction(gid, currentRec, settings) : undefined
+        if (botAction) {
+            const botMessage = botAction === 'repeat'
+                ? h('as-forward', { level: 'never' }, [
+                    currentRec.quote?.valid ? h.quote(currentRec.quote.id) : '',
+                    ...h.parse(await unescapeMessage(currentRec))
+                ])
+                : h.text(settings.botInterruptMessage)
+            ctx.emit(session, botAction === 'repeat' ? 'repeat/bot-repeat' : 'repeat/bot-interrupt', session, currentRec)
+
+            if (! settings.botRepeatDelay) return botMessage
+            // 延迟发送，不阻塞后续中间件
+            ctx.setTimeout(() => {
+                session.send(botMessage).catch(err => {
+                    ctx.logger.error('Failed to send delayed bot message in %s, %o', gid, err)
+                })
+            }, Math.random() * settings.botRepeatDelay)
+        }
+
+        return undefined
+    }
+
+    // 各群等待处理的消息队列，需要等待图片下载的消息及其后的消息依次在后台处理，保持消息顺序
+    const messageQueues: Record<string, Promise<void>> = {}
+
+    const enqueueMessage = (gid: string, task: () => Promise<void>) => {
+        const queued = (messageQueues[gid] ?? Promise.resolve())
+            .then(task)
+            .catch(err => {
+                ctx.logger.error('Failed to process message in %s, %o', gid, err)
+            })
+        messageQueues[gid] = queued
+        queued.then(() => {
+            if (messageQueues[gid] === queued) delete messageQueues[gid]
+        })
+    }
+
+    // 复读中间件
+    ctx.middleware(async (session, next) => {
+        // 只处理群内消息
+        const { content: originalContent, gid } = session
+        if (! session.guildId) return next()
+
+        // 检查本群是否启用复读
+        const settings = getGuildSettings(gid)
+        if (! settings.doWrite) return next()
+
+        // 过滤内容黑名单
+        if (settings.repeatBlacklist.some(re => new RegExp(re).test(originalContent)))
+            return next()
+
+        // 解析消息，处理图片和其他附件
+        // 图片在后台下载，完成前使用快速标识匹配
+        const images: RepeatImage[] = []
+        const { content, attachments } = extractAttachments(h
+            .parse(originalContent)
+            .map(el => {
+                if (settings.doProceedImage && el.type === 'img') {
+                    images.push(startImageDownload(gid, el))
+                    return '@__KOISHI_IMG__@'
+                }
+                return el.toString()
+            })
+            .join('')
+        )
+
+        // 定义当前消息：内容、规范化后的匹配内容、图片和附件
+        const key = normalizeContent(content, settings.normalizers ?? [], session.selfId)
+        const thisMessage: RepeatMessage = { content, key, images, attachments }
+
+        // 模糊匹配需要完整图片的感知哈希，等待图片下载完成后在后台处理，不阻塞后续中间件
+        // 本群已有消息在排队时，当前消息也需要排队，以免先于之前的消息处理
+        const isFuzzy = settings.imageHashThreshold && ctx.canvas
+        if (messageQueues[gid] || isFuzzy && images.some(image => imageDownloads.has(image))) {
+            enqueueMessage(gid, async () => {
+                if (isFuzzy) await waitForImages(images)
+                const botMessage = await processMessage(session, thisMessage, settings)
+                if (botMessage) await session.send(botMessage)
+            })
+            return next()
         }
 
-        // 传向下一个中间件
-        return next()
+        // 机器人立即复读或打断时不再传向下一个中间件
+        return await processMessage(session, thisMessage, settings) ?? next()
     }, true)
 
+    // 复读服务
+    const service: RepeatService = {
+        parseDuration,
+        getMemberDict,
+        getMemberName,
+
+        getRuntime: gid => runtimes[gid],
+
+        flushRuntime: async gid => {
+            const runtime = runtimes[gid]
+            const rec = runtime?.currentRec
+            if (! rec) return undefined
+
+            runtime.currentRec = undefined
+            runtime.queuedRecs = runtime.queuedRecs.filter(queuedRec => queuedRec !== rec)
+
+            let written: RepeatRecord = undefined
+            if (rec.senders.length > 1) {
+                rec.interrupter = null
+                rec.endTime = Date.now()
+                written = await writeRec(rec, getGuildSettings(gid))
+            }
+
+            await saveRuntime(gid)
+            return written
+        },
+
+        getRecords: filter => ctx.database.get('w-repeat-record', row => filterRecords(row, filter)),
+
+        deleteRecord: async id => {
+            const [ rec ] = await ctx.database.get('w-repeat-record', { id }, [ 'gid', 'senders', 'interrupter', 'words' ])
+            if (! rec) return false
+            const { users, guildUsers } = countUserStats([ rec ])
+            await Promise.all([
+                ctx.database.remove('w-repeat-record', { id }),
+                updateWordTable(rec.gid, rec.words, -1),
+                // 从用户表中扣除该记录的复读数据，使排行与复读记录保持一致
+                ...users.map(user => ctx.database.set('w-repeat-user', { uid: user.uid }, row => subUserCounters(row, user))),
+                ...guildUsers.map(user => ctx.database.set(
+                    'w-repeat-guild-user', { gid: user.gid, uid: user.uid }, row => subUserCounters(row, user)
+                ))
+            ])
+            return true
+        },
+
+        getUserStat: async (uid, gid) => {
+            const [ user ] = gid
+                ? await ctx.database.get('w-repeat-guild-user', { gid, uid })
+                : await ctx.database.get('w-repeat-user', { uid })
+            return user
+        },
+
+        getGuildStat: async filter => {
+            const [ total, tops ] = await Promise.all([
+                countRecords(filter),
+                getTops(filter)
+            ])
+            return { total, ...tops }
+        }
+    }
+
+    ctx.set('repeat', service)
+
     // 复读指令
     ctx.command('repeat', '群复读功能')
 
     ctx.command('repeat.user [user:user]', '查看用户复读统计')
-        .action(async ({ session }, uid) => {
-            const [ user ] = await ctx.database.get('w-repeat-user', { uid: uid || session.uid })
-            if (! user) return `还没有复读统计`
+        .option('guild', '-g <guild:channel> 指定群（默认为本群）', {
+            conflictsWith: { option: 'global', value: true }
+        })
+        .option('global', '-G 查看在所有群的统计')
+        .action(async ({ session, options }, uid) => {
+            const { global: isGlobal } = options
+            if (! session.guildId && ! options.guild && ! isGlobal) return '请在群内调用'
+            const gid = isGlobal ? undefined : options.guild || session.gid
+
+            const user = await service.getUserStat(uid || session.uid, gid)
+            if (! user) return `${isGlobal ? '' : options.guild ? '在该群' : '在本群'}还没有复读统计`
             return dedent`
                 复读条数：　　${user.repeatCount}
                 复读次数：　　${user.repeatTime}
@@ -782,9 +2677,297 @@ export async function apply(ctx: Context, config: Config) {
             `
         })
 
+    ctx.command('repeat.user.partners [user:user]', '查看用户的复读伙伴')
+        .option('guild', '-g <guild:channel> 指定群（默认为本群）')
+        .option('duration',
+            '-d <duration:string> 指定时间范围。可以为 hour/day/week/month/all，或者用波浪号（~）分割的开始、结束时间',
+            { fallback: 'all' }
+        )
+        .option('top', '-t <top:posint> 显示的人数', { fallback: 5 })
+        .action(async ({ session, options }, uid) => {
+            if (! session.guildId && ! options.guild) return '请在群内调用'
+            const gid = options.guild ?? session.gid
+            uid ||= session.uid
+
+            const [ recs, memberDict ] = await Promise.all([
+                ctx.database
+                    .select('w-repeat-record')
+                    .where(row => filterRecords(row, { gid, duration: options.duration, repeater: uid }))
+                    .project([ 'senders' ])
+                    .execute(),
+                getMemberDict(session, gid.split(':')[1])
+            ])
+            const sendMat = getSendMat(recs)
+
+            const sortPartners = (partners: [ string, number ][]) => partners
+                .filter(([ partner ]) => partner !== uid)
+                .sort(([, count1 ], [, count2 ]) => count2 - count1)
+                .slice(0, options.top)
+            const repeatedByUser = sortPartners(Object
+                .entries(sendMat[uid] ?? {})
+                .map(([ starter, { count } ]) => [ starter, count ])
+            )
+            const repeatingUser = sortPartners(Object
+                .entries(sendMat)
+                .filter(([, row ]) => row[uid])
+                .map(([ sender, row ]) => [ sender, row[uid].count ])
+            )
+
+            const partnersText = (partners: [ string, number ][]) => partners.length
+                ? partners.map(([ partner, count ], i) => `${i + 1}. ${getMemberName(memberDict, partner)} * ${count}`).join('\n')
+                : '暂无'
+            const name = getMemberName(memberDict, uid)
+            return dedent`
+                ${name} 最常复读的群友：
+                ${partnersText(repeatedByUser)}
+
+                最常复读 ${name} 的群友：
+                ${partnersText(repeatingUser)}
+            `
+        })
+
+    ctx.command('repeat.influence', '查看群复读影响力排行')
+        .option('guild', '-g <guild:channel> 指定群（默认为本群）')
+        .option('duration',
+            '-d <duration:string> 指定时间范围。可以为 hour/day/week/month/all，或者用波浪号（~）分割的开始、结束时间',
+            { fallback: 'month' }
+        )
+        .option('top', '-t <top:posint> 排行榜人数', { fallback: 10 })
+        .action(async ({ session, options }) => {
+            if (! session.guildId && ! options.guild) return '请在群内调用'
+            const gid = options.guild ?? session.gid
+
+            const [ recs, memberDict ] = await Promise.all([
+                ctx.database
+                    .select('w-repeat-record')
+                    .where(row => filterRecords(row, { gid, duration: options.duration }))
+                    .project([ 'senders' ])
+                    .execute(),
+                getMemberDict(session, gid.split(':')[1])
+            ])
+            const sendMat = getSendMat(recs)
+            const ranks = getPageRanks(sendMat)
+
+            // 加权入度，即被他人复读的总次数
+            const inDegrees: Record<string, number> = {}
+            Object.values(sendMat).forEach(row => Object.entries(row).forEach(([ starter, { count } ]) => {
+                inDegrees[starter] = (inDegrees[starter] ?? 0) + count
+            }))
+
+            const topRanks = Object
+                .entries(ranks)
+                .sort(([, rank1 ], [, rank2 ]) => rank2 - rank1)
+                .slice(0, options.top)
+            if (! topRanks.length) return '指定的时间范围内还没有复读'
+
+            return `复读影响力最高的 ${topRanks.length} 名群友是：\n` + topRanks
+                .map(([ uid, rank ], i) =>
+                    `${i + 1}. ${getMemberName(memberDict, uid)}：${(rank * 100).toFixed(2)}%（被复读 ${inDegrees[uid] ?? 0} 次）`
+                )
+                .join('\n')
+        })
+
+    ctx.command('repeat.profile [user:user]', '查看用户复读名片')
+        .option('guild', '-g <guild:channel> 指定群（默认为本群）')
+        .action(async ({ session, options }, uid) => {
+            if (! ctx.puppeteer) return '此指令需要 puppeteer 服务'
+
+            if (! session.guildId && ! options.guild) return '请在群内调用'
+            const gid = options.guild ?? session.gid
+            uid ||= session.uid
+
+            const [ guildUsers, recs, memberDict ] = await Promise.all([
+                ctx.database.get('w-repeat-guild-user', { gid }),
+                ctx.database
+                    .select('w-repeat-record')
+                    .where(row => filterRecords(row, { gid, repeater: uid }))
+                    .project([ 'content', 'images', 'attachments', 'senders', 'startTime' ])
+                    .execute(),
+                getMemberDict(session, gid.split(':')[1])
+            ])
+            const user = guildUsers.find(user => user.uid === uid)
+            if (! user) return `${options.guild ? '在该群' : '在本群'}还没有复读统计`
+
+            const escapedName = h.escape(getMemberName(memberDict, uid))
+            const avatar = memberDict[uid]?.user?.avatar
+            const TOP_COUNT = 3
+
+            // 名片中只显示纯文本
+            const getPlainText = async (rec: RepeatMessage) => h.escape(h
+                .parse(ellipsis(await unescapeMessage(rec, { allowImage: false, allowFace: false }), config.displayLength))
+                .map(el => el.type === 'text' ? el.attrs.content : '')
+                .join('')
+            )
+
+            // 计数与群内排名
+            const counterText = {
+                repeatCount: '复读条数',
+                repeatTime: '复读次数',
+                beRepeatedCount: '被复读条数',
+                beRepeatedTime: '被复读次数',
+                interruptTime: '打断复读次数'
+            } satisfies Partial<Record<keyof RepeatUser, string>>
+            const countersHtml = Object.entries(counterText).map(([ key, text ]) => {
+                const value = user[key as keyof typeof counterText]
+                const rank = guildUsers.filter(other => other[key as keyof typeof counterText] > value).length + 1
+                return `<div class="counter"><b>${value}</b><span>${text}</span><small>第 ${rank} 名</small></div>`
+            }).join('')
+
+            // 最常被复读的内容、最常加入的复读、最常复读该用户的人
+            const startedRecs = recs
+                .filter(rec => rec.senders[0] === uid)
+                .sort((rec1, rec2) => rec2.senders.length - rec1.senders.length)
+            const topContents = await Promise.all(startedRecs
+                .slice(0, TOP_COUNT)
+                .map(async rec => `${await getPlainText(rec)} * ${rec.senders.length}`)
+            )
+
+            const joinedRecs = recs.filter(rec => rec.senders[0] !== uid)
+            const topJoined = await Promise.all(countAndSortBy(joinedRecs, rec => rec.content)
+                .slice(0, TOP_COUNT)
+                .map(async ([ content, count ]) => `${await getPlainText(joinedRecs.find(rec => rec.content === content))} * ${count}`)
+            )
+
+            const topFans = countAndSortBy(startedRecs, rec => rec.senders.slice(1).filter(sender => sender !== uid))
+                .slice(0, TOP_COUNT)
+                .map(([ fan, count ]) => `${h.escape(getMemberName(memberDict, fan))} * ${count}`)
+
+            const listHtml = (title: string, items: string[]) => dedent`
+                <div class="list">
+                    <h3>${title}</h3>
+                    ${items.length ? items.map(item => `<p>${item}</p>`).join('') : '<p class="empty">暂无</p>'}
+                </div>
+            `
+
+            // 活跃时段热力图（星期 × 小时）
+            const CELL_SIZE = 14
+            const heatmap = Array.from({ length: 7 }, () => Array<number>(24).fill(0))
+            recs.forEach(({ startTime }) => {
+                const time = dayjs(startTime).tz(config.timezone)
+                heatmap[time.day()][time.hour()] ++
+            })
+            const maxHeat = Math.max(1, ...heatmap.flat())
+            const heatmapSvg = dedent`
+                <svg width="${24 * CELL_SIZE}" height="${7 * CELL_SIZE}">
+                    ${heatmap.flatMap((row, day) => row.map((count, hour) =>
+                        `<rect x="${hour * CELL_SIZE}" y="${day * CELL_SIZE}" width="${CELL_SIZE - 2}" height="${CELL_SIZE - 2}" ` +
+                        `rx="2" fill="#5470c6" fill-opacity="${(.08 + .92 * count / maxHeat).toFixed(2)}" />`
+                    )).join('')}
+                </svg>
+            `
+
+            // 最近 30 天复读次数折线
+            const SPARKLINE_DAYS = 30
+            const SPARKLINE_WIDTH = 24 * CELL_SIZE
+            const SPARKLINE_HEIGHT = 60
+            const today = dayjs().tz(config.timezone).startOf('day')
+            const dailyCounts = Array<number>(SPARKLINE_DAYS).fill(0)
+            recs.forEach(({ startTime }) => {
+                const daysAgo = today.diff(dayjs(startTime).tz(config.timezone).startOf('day'), 'day')
+                if (daysAgo >= 0 && daysAgo < SPARKLINE_DAYS) dailyCounts[SPARKLINE_DAYS - 1 - daysAgo] ++
+            })
+            const maxDailyCount = Math.max(1, ...dailyCounts)
+            const sparklinePoints = dailyCounts
+                .map((count, i) => [
+                    (i / (SPARKLINE_DAYS - 1) * SPARKLINE_WIDTH).toFixed(1),
+                    (SPARKLINE_HEIGHT - 2 - count / maxDailyCount * (SPARKLINE_HEIGHT - 4)).toFixed(1)
+                ].join(','))
+                .join(' ')
+            const sparklineSvg = dedent`
+                <svg width="${SPARKLINE_WIDTH}" height="${SPARKLINE_HEIGHT}">
+                    <polyline points="${sparklinePoints}" fill="none" stroke="#91cc75" stroke-width="2" />
+                </svg>
+            `
+
+            const html = dedent`
+                <html>
+                <head>
+                    <style>
+                        body { margin: 0; font-family: sans-serif; }
+                        .card { display: inline-block; width: 720px; padding: 24px; background: #fff; color: #333; }
+                        .header { display: flex; align-items: center; gap: 16px; }
+                        .header img { width: 72px; height: 72px; border-radius: 50%; }
+                        .header h2 { margin: 0; }
+                        .counters { display: flex; justify-content: space-between; margin: 20px 0; }
+                        .counter { display: flex; flex-direction: column; align-items: center; }
+                        .counter b { font-size: 24px; }
+                        .counter small { color: #999; }
+                        .lists { display: flex; gap: 16px; }
+                        .list { flex: 1; min-width: 0; }
+                        .list h3, .charts h3 { margin: 8px 0; font-size: 16px; }
+                        .list p { margin: 4px 0; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+                        .list .empty { color: #999; }
+                        .charts { display: flex; justify-content: space-between; margin-top: 16px; }
+                    </style>
+                </head>
+                <body>
+                    <div class="card">
+                        <div class="header">
+                            ${avatar ? `<img src="${h.escape(avatar, true)}" />` : ''}
+                            <h2>${escapedName} 的复读名片</h2>
+                        </div>
+                        <div class="counters">${countersHtml}</div>
+                        <div class="lists">
+                            ${listHtml('最常被复读的内容', topContents)}
+                            ${listHtml('最常加入的复读', topJoined)}
+                            ${listHtml('最常复读 Ta 的人', topFans)}
+                        </div>
+                        <div class="charts">
+                            <div><h3>活跃时段</h3>${heatmapSvg}</div>
+                            <div><h3>最近 ${SPARKLINE_DAYS} 天</h3>${sparklineSvg}</div>
+                        </div>
+                    </div>
+                </body>
+                </html>
+            `
+
+            return ctx.puppeteer.render(html, async (page, next) => next(await page.$('.card')))
+        })
+
+    ctx.command('repeat.achievement [user:user]', '查看用户复读成就')
+        .alias('repeat.ach')
+        .option('guild', '-g <guild:channel> 指定群（默认为本群）')
+        .action(async ({ session, options }, uid) => {
+            if (! session.guildId && ! options.guild) return '请在群内调用'
+            const gid = options.guild ?? session.gid
+            uid ||= session.uid
+
+            const [ [ user ], unlocks, memberDict ] = await Promise.all([
+                ctx.database.get('w-repeat-guild-user', { gid, uid }),
+                ctx.database.get('w-repeat-achievement', { gid, uid }),
+                getMemberDict(session, gid.split(':')[1])
+            ])
+
+            const achievementText = achievements
+                .map(({ key, name, description, goal, getProgress }) => {
+                    const unlock = unlocks.find(unlock => unlock.key === key)
+                    if (unlock) return `✓ ${name}：${description}（${dayjs(unlock.unlockTime).format('YYYY-MM-DD')} 解锁）`
+                    const progressText = getProgress
+                        ? `${Math.min(user ? getProgress(user) : 0, goal)} / ${goal}`
+                        : '未达成'
+                    return `✗ ${name}：${description}（${progressText}）`
+                })
+                .join('\n')
+
+            return dedent`
+                ${getMemberName(memberDict, uid)} 的复读成就（已解锁 ${unlocks.length} / ${achievements.length}）：
+            ` + '\n' + achievementText
+        })
+
     ctx.command('repeat.stat', '查看群复读统计')
         .alias('repeat.s')
         .alias('repeat.guild')
+        .usage(dedent`
+            查询语句由条件、括号和 and / or / not 组成，例如：count>=5 and starter:@123 and (content~/草/ or image)
+            可用的条件：
+            id、count（复读次数）、distinct（不同发送者数）：支持 >= <= > < = != 比较数字
+            image、suspended：单独使用表示包含图片、发生过中断，也可以比较数量
+            start、end：支持 >= <= > < = != 比较时间
+            starter、repeater、interrupter：支持 : != 匹配用户，可以为 @用户 或 平台:用户
+            content：~ 匹配正则表达式，: 包含文本，= != 比较全文
+            gid：支持 : != 匹配群
+            包含空格的值需要用引号括起来
+        `)
         .option('guild', '-g <guild:channel> 指定群（默认为本群）', {
             conflictsWith: { option: 'global', value: true }
         })
@@ -802,69 +2985,40 @@ export async function apply(ctx: Context, config: Config) {
         .option('starter', '--us <user:user> 根据发起者查找（默认为自己）', requireList())
         .option('repeater', '--ur <user:user> 根据参与者查找（默认为自己）', requireList())
         .option('interrupter', '--ui <user:user> 根据打断者查找（默认为自己）', requireList())
-        .option('jsfilter', '-j <code:string>', {
-            authority: 4,
-            conflictsWith: [ 'filter', { option: 'list', value: false } ]
-        })
-        .option('sort', '-s <sortby> 指定排序方式', { type: /^(count|tps|startTime)?(:(desc|asc))?$/, fallback: 'count' })
+        .option('query', '-q <query:text> 使用查询语句查找复读记录', requireList())
+        .option('distinct', '-D <count:natural> 查找不同发送者数至少为此值的复读记录', requireList())
+        .option('thumbnail', '-I 在复读记录列表中显示图片缩略图', requireList())
+        .option('sort', '-s <sortby> 指定排序方式', { type: /^(count|tps|distinct|startTime)?(:(desc|asc))?$/, fallback: 'count' })
         .action(async ({ session, options }) => {
-            const { global: isGlobal, jsfilter, top: topNum, duration } = options
+            const { global: isGlobal, top: topNum, duration } = options
             let { guild: gid } = options
             if (! session.guildId && ! options.guild && ! isGlobal) return '请在群内调用'
-            if (! isGlobal) gid ||= session.gid
-
-            const [ sortMethod = 'count', sortDirection = 'desc' ] = options.sort.split(':') as [
-                'count' | 'tps' | 'length' | 'startTime', Direction
-            ]
-            const isFiltered = ([ 'filter', 'starter', 'repeater', 'interrupter' ] satisfies (keyof typeof options)[])
-                .some(name => name in options)
-
-            // TODO: wait for row destruction
-            const reserveProjection = getReserveProjection<RepeatRecord>([
-                'id', 'gid', 'content', 'senders', 'startTime', 'endTime', 'interrupter', 'images'
-            ])
-
-            let recs = await ctx.database
-                .select('w-repeat-record')
-                .where(row => $.query(row, {
-                    gid: isGlobal ? {} : gid,
-                    ...parseDuration(duration)
-                }, $.and(
-                    options.filter
-                        ? $.regex(row.content, options.filter)
-                        : true,
-                    options.starter
-                        ? $.eq($.get(row.senders, 0), options.starter)
-                        : true,
-                    options.repeater
-                        ? $.in(options.repeater, row.senders)
-                        : true,
-                    options.interrupter
-                        ? $.eq(row.interrupter, options.interrupter)
-                        : true,
-                    options.image
-                        ? $.gt($.length(row.images), 0)
-                        : true
-                )))
-                .project({
-                    ...reserveProjection,
-                    count: row => $.length(row.senders)
-                })
-                .project(removeUndefined({
-                    ...reserveProjection,
-                    count: row => row.count,
-                    tps: sortMethod === 'tps'
-                        ? row => $.mul($.div(row.count, $.sub(row.endTime, row.startTime)), 1000)
-                        : undefined
-                } satisfies Dict<Selection.Callback<RepeatRecord & { count: number }>>))
-                .orderBy(sortMethod as any, sortDirection)
-                .execute()
+            if (! isGlobal) gid ||= session.gid
+
+            const [ sortMethod = 'count', sortDirection = 'desc' ] = options.sort.split(':') as [
+                'count' | 'tps' | 'distinct' | 'length' | 'startTime', Direction
+            ]
+            const isFiltered = ([ 'filter', 'starter', 'repeater', 'interrupter', 'distinct', 'query' ] satisfies (keyof typeof options)[])
+                .some(name => name in options)
 
-            if (jsfilter) recs = recs.filter(eval(jsfilter))
+            const filter: RepeatRecordFilter = {
+                gid: isGlobal ? undefined : gid,
+                duration,
+                content: options.filter,
+                image: options.image,
+                starter: options.starter,
+                repeater: options.repeater,
+                interrupter: options.interrupter,
+                minDistinct: options.distinct,
+                query: options.query,
+                platform: session.platform
+            }
+            const isTopShown = ! isFiltered && topNum > 0
 
-            const topInterrupters = countAndSortBy(recs, rec => rec.interrupter)
-            const topStarters = countAndSortBy(recs, rec => rec.senders[0])
-            const topRepeaters = countAndSortBy(recs, rec => rec.senders)
+            const [ total, tops ] = await Promise.all([
+                countRecords(filter),
+                isTopShown ? getTops(filter, topNum) : undefined
+            ])
 
             const memberDict = isGlobal ? null : await getMemberDict(session, gid.split(':')[1])
 
@@ -886,6 +3040,7 @@ export async function apply(ctx: Context, config: Config) {
             const { [sortMethod]: sortMethodText } = {
                 'count': '复读次数',
                 'tps': '每秒复读次数',
+                'distinct': '不同发送者数',
                 'startTime': '开始时间',
                 'length': '消息长度'
             } satisfies Record<typeof sortMethod, string>
@@ -894,7 +3049,6 @@ export async function apply(ctx: Context, config: Config) {
                 'asc': '升序'
             } satisfies Record<Direction, string>
 
-            const total = recs.length
             const groupText = options.global
                 ? '所有群'
                 : options.guild
@@ -906,7 +3060,8 @@ export async function apply(ctx: Context, config: Config) {
                 options.interrupter && `被 ${ getMemberName(memberDict, options.interrupter) } 打断的`,
                 options.image && '包含图片的',
                 options.filter && `符合 /${options.filter}/ 的`,
-                jsfilter && `符合 \`${jsfilter}\``
+                options.distinct && `至少有 ${options.distinct} 人参与的`,
+                options.query && `符合查询 \`${options.query}\` 的`
             ].filter(s => s).join('、')
             if (! total) return `${groupText}${durationText}还没有复读。在？为什么不复读？`
 
@@ -915,30 +3070,59 @@ export async function apply(ctx: Context, config: Config) {
             const pageId = options.page
             if (pageId < 1 || pageId > pageNum) return `页数必须为 1 到 ${pageNum} 间的整数。`
 
-            const getListText = () => recs
-                .slice((pageId - 1) * pageSize, pageId * pageSize)
-                .map((rec, i) => {
-                    const content = ellipsis(unescapeMessage(rec, { allowImage: false }), displayLength)
-                    const times = ` * ${rec.senders.length}`
+            const getListText = async () => {
+                // TODO: wait for row destruction
+                const reserveProjection = getReserveProjection<RepeatRecord>([
+                    'id', 'content', 'startTime', 'endTime', 'images', 'attachments', 'distinctCount'
+                ])
+
+                // 只读取当前页的记录
+                const recs = await ctx.database
+                    .select('w-repeat-record')
+                    .where(row => filterRecords(row, filter))
+                    .project({
+                        ...reserveProjection,
+                        count: row => $.length(row.senders)
+                    })
+                    .project(removeUndefined({
+                        ...reserveProjection,
+                        count: row => row.count,
+                        tps: sortMethod === 'tps'
+                            ? row => $.mul($.div(row.count, $.sub(row.endTime, row.startTime)), 1000)
+                            : undefined
+                    } satisfies Dict<Selection.Callback<RepeatRecord & { count: number }>>))
+                    .orderBy((sortMethod === 'distinct' ? 'distinctCount' : sortMethod) as any, sortDirection)
+                    .offset((pageId - 1) * pageSize)
+                    .limit(pageSize)
+                    .execute()
+
+                return (await Promise.all(recs.map(async (rec, i) => {
+                    const content = ellipsis(await unescapeMessage(rec, {
+                        allowImage: !! options.thumbnail,
+                        allowAttachment: false,
+                        thumbnail: true
+                    }), displayLength)
+                    const times = ` * ${rec.count}`
                     const extra =
                         sortMethod === 'tps' ? `, ${rec.tps.toFixed(2)}/s` :
+                        sortMethod === 'distinct' ? `, ${rec.distinctCount ?? '?'} 人` :
                         ''
                     return `${i + 1}. [${content}${times}${extra}] # ${rec.id}`
-                })
-                .join('\n')
+                }))).join('\n')
+            }
 
             const text = (options.list
                 ? dedent`
-                    ${groupText}${durationText}共有 ${recs.length} 次${filterText}复读
+                    ${groupText}${durationText}共有 ${total} 次${filterText}复读
                     按${sortMethodText}${sortDirectionText}排序依次为：（第 ${pageId} / ${pageNum} 页）
-                    ${getListText()}
+                    ${await getListText()}
                 ` + '\n\n'
                 : ''
-            ) + (! isFiltered && topNum > 0
+            ) + (isTopShown
                 ? dedent`   
-                    ${topText('参与复读', topRepeaters)}
-                    ${topText('发起复读', topStarters)}
-                    ${topText('打断复读', topInterrupters)}
+                    ${topText('参与复读', tops.repeaters)}
+                    ${topText('发起复读', tops.starters)}
+                    ${topText('打断复读', tops.interrupters)}
                 `
                 : ''
             )
@@ -1034,6 +3218,7 @@ export async function apply(ctx: Context, config: Config) {
             '-d <duration:string> 指定时间范围。可以为 hour/day/week/month/all，或者用波浪号（~）分割的开始、结束时间',
             { fallback: 'day' }
         )
+        .option('query', '-q <query:text> 使用查询语句筛选复读记录')
         .action(async ({ session, options }) => {
             if (! ctx.echarts) return '此指令需要 echarts 服务'
 
@@ -1044,13 +3229,14 @@ export async function apply(ctx: Context, config: Config) {
             const memberDict = await getMemberDict(session, guildId)
 
             const starterDict: Record<string, { name: string, count: number }> = {}
-            const sendMat: Record<string, Record<string, { count: number }>> = {}
             const recs = await ctx.database
                 .select('w-repeat-record')
-                .where({
+                .where(row => filterRecords(row, {
                     gid,
-                    ...parseDuration(options.duration)
-                })
+                    duration: options.duration,
+                    query: options.query,
+                    platform: session.platform
+                }))
                 .execute()
 
             recs.forEach(rec => {
@@ -1059,10 +3245,8 @@ export async function apply(ctx: Context, config: Config) {
                     name: getMemberName(memberDict, starter),
                     count: 0
                 }).count ++
-                rec.senders.slice(1).forEach(sender => {
-                    ((sendMat[sender] ??= {})[starter] ??= { count: 0 }).count ++
-                })
             })
+            const sendMat = getSendMat(recs)
 
             type GraphSeriesOption = echarts.RegisteredSeriesOption['graph']
 
@@ -1145,6 +3329,7 @@ export async function apply(ctx: Context, config: Config) {
 
     ctx.command('repeat.graph.time', '查看群复读时段图')
         .option('guild', '-g <guild:channel> 指定群（默认为本群）')
+        .option('query', '-q <query:text> 使用查询语句筛选复读记录')
         .action(async ({ session, options }) => {
             if (! ctx.echarts) return '此指令需要 echarts 服务'
 
@@ -1154,7 +3339,7 @@ export async function apply(ctx: Context, config: Config) {
             // TODO: optimize
             const recs = await ctx.database
                 .select('w-repeat-record')
-                .where({ gid })
+                .where(row => filterRecords(row, { gid, query: options.query, platform: session.platform }))
                 .project([ 'startTime' ])
                 .execute()
 
@@ -1208,6 +3393,255 @@ export async function apply(ctx: Context, config: Config) {
             return eh.export()
         })
 
+    ctx.command('repeat.graph.words [...words:string]', '查看群复读词云或词频趋势图')
+        .option('guild', '-g <guild:channel> 指定群（默认为本群）', {
+            conflictsWith: { option: 'global', value: true }
+        })
+        .option('global', '-G 指定群（默认为本群）')
+        .option('duration',
+            '-d <duration:string> 指定时间范围。可以为 hour/day/week/month/all，或者用波浪号（~）分割的开始、结束时间',
+            { fallback: 'month' }
+        )
+        .option('top', '-t <top:posint> 词云显示的词数，或未指定词时趋势图显示的词数', { fallback: 100 })
+        .option('trend', '-T 查看词频趋势图（默认为词云）')
+        .option('unit', '-u <unit> 趋势图的时间单位，可以为 day/week', { type: /^(day|week)$/, fallback: 'day' })
+        .option('all', '-a 显示所有词（包括黑名单中的）')
+        .option('query', '-q <query:text> 使用查询语句筛选复读记录')
+        .action(async ({ session, options }, ...words) => {
+            if (! ctx.echarts) return '此指令需要 echarts 服务'
+
+            const { global: isGlobal, all } = options
+            if (! session.guildId && ! options.guild && ! isGlobal) return '请在群内调用'
+            const gid = isGlobal ? undefined : options.guild || session.gid
+            const settings = getGuildSettings(gid)
+
+            // 分词表不含时间信息，需要从复读记录的分词结果统计
+            const recs = await ctx.database
+                .select('w-repeat-record')
+                .where(row => filterRecords(row, {
+                    gid,
+                    duration: options.duration,
+                    query: options.query,
+                    platform: session.platform
+                }))
+                .project([ 'startTime', 'words' ])
+                .execute()
+
+            const isShown = ({ word, tag }: Tag) => all || ! (
+                elem(word, settings.segmentationWordBlacklist) ||
+                elem(tag, settings.segmentationTagBlacklist)
+            )
+            const recWords = recs.map(rec => ({
+                startTime: rec.startTime,
+                words: (rec.words ?? []).filter(isShown).map(({ word }) => word)
+            }))
+            const topWords = countAndSortBy(recWords, rec => rec.words)
+            if (! topWords.length) return '没有可以统计的复读分词，请确认已启用分词'
+
+            if (! options.trend) {
+                const cloudWords = topWords.slice(0, options.top)
+                const [ , maxCount ] = cloudWords[0]
+                const colors = [ '#5470c6', '#91cc75', '#fac858', '#ee6666', '#73c0de', '#3ba272', '#fc8452', '#9a60b4' ]
+
+                type GraphSeriesOption = echarts.RegisteredSeriesOption['graph']
+
+                // 用无连线的力引导图模拟词云
+                const eh = ctx.echarts.createChart(800, 600, {
+                    series: {
+                        type: 'graph',
+                        layout: 'force',
+                        force: {
+                            repulsion: 120,
+                            gravity: .3
+                        },
+                        data: cloudWords.map<GraphSeriesOption['data'][number]>(([ word, count ], i) => ({
+                            name: word,
+                            value: count,
+                            symbolSize: 0,
+                            label: {
+                                show: true,
+                                formatter: word,
+                                fontSize: 12 + 48 * count / maxCount,
+                                fontWeight: 'bold',
+                                color: colors[i % colors.length]
+                            }
+                        }))
+                    },
+                    backgroundColor: '#fff'
+                })
+
+                return eh.export(3000)
+            }
+
+            const trendWords = words.length ? words : topWords.slice(0, Math.min(options.top, 5)).map(([ word ]) => word)
+            const unit = options.unit as 'day' | 'week'
+
+            let minTime = Infinity, maxTime = - Infinity
+            recWords.forEach(({ startTime }) => {
+                if (startTime < minTime) minTime = startTime
+                if (startTime > maxTime) maxTime = startTime
+            })
+            const end = dayjs(maxTime).startOf(unit)
+            const periods: string[] = []
+            for (let date = dayjs(minTime).startOf(unit); ! date.isAfter(end); date = date.add(1, unit))
+                periods.push(date.format('YYYY-MM-DD'))
+
+            const trendDict: Record<string, Record<string, number>> = Object.fromEntries(trendWords.map(word => [
+                word,
+                Object.fromEntries(periods.map(period => [ period, 0 ]))
+            ]))
+            recWords.forEach(({ startTime, words }) => {
+                const period = dayjs(startTime).startOf(unit).format('YYYY-MM-DD')
+                words.forEach(word => {
+                    if (word in trendDict) trendDict[word][period] ++
+                })
+            })
+
+            const eh = ctx.echarts.createChart(Math.max(800, periods.length * 20 + 100), 500, {
+                legend: {
+                    data: trendWords
+                },
+                xAxis: {
+                    type: 'category',
+                    data: periods.map(period => period.slice(5))
+                },
+                yAxis: {
+                    type: 'value',
+                    minInterval: 1
+                },
+                series: trendWords.map(word => ({
+                    type: 'line',
+                    name: word,
+                    data: periods.map(period => trendDict[word][period])
+                })),
+                backgroundColor: '#fff'
+            })
+
+            return eh.export()
+        })
+
+    ctx.command('repeat.graph.trend [...users:user]', '查看复读趋势图，可以指定多个用户叠加显示')
+        .option('guild', '-g <guild:channel> 指定群（默认为本群）')
+        .option('guilds', '-G <guilds:string> 叠加显示多个群，用逗号分隔', { conflictsWith: 'guild' })
+        .option('duration',
+            '-d <duration:string> 指定时间范围。可以为 hour/day/week/month/all，或者用波浪号（~）分割的开始、结束时间',
+            { fallback: 'month' }
+        )
+        .option('unit', '-u <unit> 时间单位，可以为 day/week/month', { type: /^(day|week|month)$/, fallback: 'day' })
+        .option('metric', '-m <metric> 统计指标，可以为 records（复读次数）/ senders（复读人次）/ length（平均复读长度）', {
+            type: /^(records|senders|length)$/,
+            fallback: 'records'
+        })
+        .option('query', '-q <query:text> 使用查询语句筛选复读记录')
+        .action(async ({ session, options }, ...uids) => {
+            if (! ctx.echarts) return '此指令需要 echarts 服务'
+
+            if (uids.length && options.guilds) return '不能同时叠加显示多个用户和多个群'
+            if (! session.guildId && ! options.guild && ! options.guilds) return '请在群内调用'
+
+            const unit = options.unit as 'day' | 'week' | 'month'
+            const metric = options.metric as 'records' | 'senders' | 'length'
+
+            // 每条折线对应一个群，或群内的一个用户
+            interface TrendLine {
+                name: string
+                gid: string
+                uid?: string
+            }
+            let lines: TrendLine[]
+            if (options.guilds) {
+                lines = await Promise.all(options.guilds.split(',').map(async str => {
+                    str = str.trim()
+                    const gid = str.includes(':') ? str : `${session.platform}:${str}`
+                    return { name: await getGuildName(gid), gid }
+                }))
+            }
+            else {
+                const gid = options.guild ?? session.gid
+                if (uids.length) {
+                    const memberDict = await getMemberDict(session, gid.split(':')[1])
+                    lines = uids.map(uid => ({ name: getMemberName(memberDict, uid), gid, uid }))
+                }
+                else lines = [{ name: options.guild ? gid : '本群', gid }]
+            }
+
+            const recs = await ctx.database
+                .select('w-repeat-record')
+                .where(row => filterRecords(row, {
+                    duration: options.duration,
+                    query: options.query,
+                    platform: session.platform
+                }))
+                .where({ gid: { $in: [ ...new Set(lines.map(line => line.gid)) ] } })
+                .project([ 'gid', 'startTime', 'senders' ])
+                .execute()
+            if (! recs.length) return '指定的时间范围内还没有复读'
+
+            const toDate = (time: number) => dayjs(time).tz(config.timezone).startOf(unit)
+            let minTime = Infinity, maxTime = - Infinity
+            recs.forEach(({ startTime }) => {
+                if (startTime < minTime) minTime = startTime
+                if (startTime > maxTime) maxTime = startTime
+            })
+            const end = toDate(maxTime)
+            const periods: string[] = []
+            for (let date = toDate(minTime); ! date.isAfter(end); date = date.add(1, unit))
+                periods.push(date.format('YYYY-MM-DD'))
+
+            const lineData = lines.map(({ gid, uid }) => {
+                const stats = Object.fromEntries(periods.map(period => [ period, { records: 0, senders: 0, length: 0 } ]))
+                recs.forEach(rec => {
+                    if (rec.gid !== gid) return
+                    // 指定用户时只统计该用户参与的复读，复读人次只计入该用户
+                    const senderCount = uid ? rec.senders.filter(sender => sender === uid).length : rec.senders.length
+                    if (! senderCount) return
+                    const stat = stats[toDate(rec.startTime).format('YYYY-MM-DD')]
+                    stat.records ++
+                    stat.senders += senderCount
+                    stat.length += rec.senders.length
+                })
+                return periods.map(period => {
+                    const { records, senders, length } = stats[period]
+                    if (metric === 'records') return records
+                    if (metric === 'senders') return senders
+                    return records ? + (length / records).toFixed(2) : 0
+                })
+            })
+
+            const { [metric]: metricText } = {
+                'records': '复读次数',
+                'senders': '复读人次',
+                'length': '平均复读长度'
+            } satisfies Record<typeof metric, string>
+
+            const eh = ctx.echarts.createChart(Math.max(800, periods.length * 20 + 100), 500, {
+                title: {
+                    text: metricText,
+                    left: 'center'
+                },
+                legend: {
+                    data: lines.map(line => line.name),
+                    top: 30
+                },
+                xAxis: {
+                    type: 'category',
+                    data: periods.map(period => unit === 'month' ? period.slice(0, 7) : period.slice(5))
+                },
+                yAxis: {
+                    type: 'value',
+                    minInterval: metric === 'length' ? undefined : 1
+                },
+                series: lines.map((line, i) => ({
+                    type: 'line',
+                    name: line.name,
+                    data: lineData[i]
+                })),
+                backgroundColor: '#fff'
+            })
+
+            return eh.export()
+        })
+
     ctx.command('repeat.graph.top-calendar [month:string]', '查看群复读排行日历')
         .alias('repeat.graph.topc')
         .option('guild', '-g <guild:channel> 指定群（默认为本群）')
@@ -1223,12 +3657,25 @@ export async function apply(ctx: Context, config: Config) {
             if (! session.guildId && ! options.guild) return '请在群内调用'
             const gid = options.guild ?? session.gid
 
-            const date = month ? dayjs(month, 'YYYY-MM', true) : dayjs()
+            const now = tzNow()
+            const date = month ? dayjs(month, 'YYYY-MM', true) : now
             if (! date.isValid()) return `${month} 不是合法的月份，月份格式应为 YYYY-MM`
             month = date.format('YYYY-MM')
 
-            const days = getDaysOfMonth(date)
-            const today = date.format('DD')
+            // 已汇总的日历加上实时计算的今日数据
+            const isCurrentMonth = month === now.format('YYYY-MM')
+            const today = isCurrentMonth ? now.format('DD') : undefined
+            const [ memberDict, days ] = await Promise.all([
+                getMemberDict(session, gid.split(':')[1]),
+                Promise.all([
+                    // 非本月时没有今日，不能用 $ne 筛选
+                    ctx.database.get('w-repeat-calendar', isCurrentMonth
+                        ? { gid, month, day: { $ne: today } }
+                        : { gid, month }
+                    ),
+                    isCurrentMonth ? getCalendarDay(gid, now) : undefined
+                ]).then(([ rolledUpDays, currentDay ]) => currentDay ? [ ...rolledUpDays, currentDay ] : rolledUpDays)
+            ])
 
             type TopType = 'repeater' | 'starter' | 'interrupter'
             const topTypeText = {
@@ -1237,64 +3684,14 @@ export async function apply(ctx: Context, config: Config) {
                 interrupter: '打断者'
             } satisfies Record<TopType, string>
 
-            const getCalendar = async (topType: TopType): Promise<{
-                output: string,
-                dataToUpsert: Update<RepeatDay>[]
-            }> => {
+            const getCalendar = async (topType: TopType): Promise<string> => {
                 const idKey = `top${capitalize(topType)}Id` as const
                 const countKey = `top${capitalize(topType)}Count` as const
 
-                const dataExists = await ctx.database
-                    .select('w-repeat-calendar')
-                    .where({
-                        gid,
-                        month: 'YYYY-MM',
-                        day: { $ne: today },
-                        [idKey]: { $ne: null }
-                    })
-                    .project({
-                        month: row => row.month,
-                        day: row => row.day,
-                        id: row => row[idKey],
-                        count: row => row[countKey]
-                    })
-                    .execute()
-                const missingDays = exclude(days, dataExists.map(rec => rec.month))
-
-                let maxCount = 0
-                const [ memberDict, [ dataCreated, dataToUpsert ] ] = await Promise.all([
-                    getMemberDict(session, gid.split(':')[1]),
-                    unzipPromise(Promise.all(missingDays.map(async day => {
-                        const date = dayjs(`${month}-${day}`)
-                        const start = + date.startOf('day')
-                        const end = + date.endOf('day')
-                        const recs = await ctx.database.get('w-repeat-record', {
-                            gid,
-                            startTime: { $gte: start, $lte: end }
-                        })
-                        if (! recs.length) return [
-                            { month, day, id: null, count: null },
-                            { month, day }
-                        ]
-                        const candidatorDict: Record<string, number> = {}
-                        const inc = safeInc(candidatorDict)
-                        recs.forEach(rec => {
-                            if (topType === 'repeater') rec.senders.forEach(inc)
-                            else if (topType === 'starter') inc(rec.senders[0])
-                            else inc(rec.interrupter)
-                        })
-                        const [ [ id, count ] ] = Object
-                            .entries(candidatorDict)
-                            .sort(([, count1 ], [, count2 ]) => count2 - count1)
-                        if (count > maxCount) maxCount = count
-                        return [
-                            { month, day, id, count },
-                            { month, day, [idKey]: id, [countKey]: count }
-                        ] as const
-                    })))
-                ])
-
-                const data = [ ...dataExists, ...dataCreated ]
+                const data = days
+                    .filter(day => day[idKey])
+                    .map(day => ({ day: day.day, id: day[idKey], count: day[countKey] }))
+                const maxCount = Math.max(0, ...data.map(({ count }) => count))
 
                 const CELL_SIZE = 80
 
@@ -1395,20 +3792,13 @@ export async function apply(ctx: Context, config: Config) {
 
                 const topText = topTypeText[topType]
 
-                return {
-                    output: `本月群${topText}排行榜：\n` + await eh.export(),
-                    dataToUpsert
-                }
+                return `本月群${topText}排行榜：\n` + await eh.export()
             }
 
             // TODO: Optimize
             if (options.type === 'a' || options.type === 'all') {
                 const outputs = await Promise.all(([ 'repeater', 'starter', 'interrupter' ] satisfies TopType[])
-                    .map(async (topType) => {
-                        const { output, dataToUpsert } = await getCalendar(topType)
-                        await ctx.database.upsert('w-repeat-calendar', dataToUpsert)
-                        return output
-                    })
+                    .map(getCalendar)
                 )
                 const output = h('message', { forward: true }, outputs.map(output => h('message', h.parse(output))))
                 return output
@@ -1423,12 +3813,7 @@ export async function apply(ctx: Context, config: Config) {
                 i: 'interrupter'
             } as const)[options.type]
 
-            const { output, dataToUpsert } = await getCalendar(topType)
-            await ctx.database.upsert('w-repeat-calendar', dataToUpsert.map(day => ({
-                ...day,
-                gid
-            })))
-            return output
+            return getCalendar(topType)
         })
 
     ctx.command('repeat.record <id:posint>', '查看某次复读详情')
@@ -1447,20 +3832,24 @@ export async function apply(ctx: Context, config: Config) {
             const guild = await session.bot.getGuild(guildId)
 
             let content: string
+            let images = await resolveImages(rec.images)
 
             if (options.delete) {
-                await ctx.database.remove('w-repeat-record', { id })
+                await service.deleteRecord(id)
                 content = '[已删除]'
             }
             else {
-                content = unescapeMessage(rec)
+                content = await unescapeMessage({ ...rec, images })
                 if (options.ocr) {
-                    if (tesseractWorker) await updateImageText(rec)
+                    if (tesseractWorker) images = await updateImageText(rec)
                     else return 'Tesseract 未加载，无法识别图片中文字'
                 }
                 if (options.segmentation) {
-                    if (jieba) await updateWords(rec)
-                    else return 'Jieba 未加载，无法分词'
+                    if (! jieba) return 'Jieba 未加载，无法分词'
+                    const oldWords = rec.words
+                    await updateWords(rec)
+                    await updateWordTable(rec.gid, oldWords, -1)
+                    await updateWordTable(rec.gid, rec.words)
                 }
             }
 
@@ -1483,14 +3872,18 @@ export async function apply(ctx: Context, config: Config) {
                 群：${guild.name}${guildId === session.guildId ? '（本群）' : ''}
                 发起者：${getMemberName(memberDict, rec.senders[0])}
                 发起时间：${timeText(rec.startTime)}
-                打断者：${getMemberName(memberDict, rec.interrupter)}
+                打断者：${rec.interrupter ? getMemberName(memberDict, rec.interrupter) : '无'}
                 参与者：${sendersText}
                 打断时间：${timeText(rec.endTime)}
                 挂起情况：${suspensionText}
                 内容：${options.delete ? '[已删除]' : content}`
-                + (rec.images.length || options.ocr
-                    ? `\n图片识别结果：${options.ocr ? '[新识别]' : ''}\n${rec.images
-                        .map(({ text }, i) => `${i + 1}. ${text.trim() || '[未识别到文字]'}`)
+                + (rec.slicedSource
+                    ? `\n截取自：${getMemberName(memberDict, rec.slicedSource.uid)} 于 ${timeText(rec.slicedSource.time)} 发送的消息\n${rec.slicedSource.content}`
+                    : ''
+                )
+                + (images.length || options.ocr
+                    ? `\n图片识别结果：${options.ocr ? '[新识别]' : ''}\n${images
+                        .map((image, i) => `${i + 1}. ${image?.text?.trim() || '[未识别到文字]'}`)
                         .join('\n')
                     }`
                     : ''
@@ -1501,6 +3894,62 @@ export async function apply(ctx: Context, config: Config) {
                 )
         })
 
+    ctx.command('repeat.spread <id:posint>', '查看复读内容在各群的传播情况')
+        .option('window', '-w <hours:posint> 查找前后多少小时内的复读', { fallback: 72 })
+        .action(async ({ options }, id) => {
+            const [ rec ] = await ctx.database.get('w-repeat-record', { id })
+            if (! rec) return `未找到复读 #${id}。`
+
+            const windowSize = options.window * 60 * 60 * 1000
+            const candidates = await ctx.database.get('w-repeat-record', row => $.and(
+                $.gte(row.startTime, rec.startTime - windowSize),
+                $.lte(row.startTime, rec.startTime + windowSize),
+                // 各群的规范化设置可能不同，内容或匹配内容相同即可
+                rec.key
+                    ? $.or($.eq(row.content, rec.content), $.eq(row.key, rec.key))
+                    : $.eq(row.content, rec.content)
+            ), [ 'id', 'gid', 'content', 'key', 'images', 'attachments', 'senders', 'startTime', 'endTime' ])
+
+            // 复读记录中的图片只有哈希，模糊匹配需要从图片表读取感知哈希
+            const hashes = [ ...new Set(candidates.flatMap(rec => rec.images ?? []).map(image => image?.hash).filter(hash => hash)) ]
+            const phashDict = Object.fromEntries((hashes.length
+                ? await ctx.database.get('w-repeat-image', { hash: { $in: hashes } }, [ 'hash', 'phash' ])
+                : []
+            ).map(({ hash, phash }) => [ hash, phash ]))
+            const withPhashes = (images: RepeatImage[] = []) => images.map(image => image && {
+                ...image,
+                phash: image.phash ?? phashDict[image.hash]
+            })
+
+            const { imageHashThreshold } = getGuildSettings(rec.gid)
+            const sourceImages = withPhashes(rec.images)
+            const spreadRecs = candidates
+                .filter(candidate => isSameImages(sourceImages, withPhashes(candidate.images), imageHashThreshold)
+                    && isSameAttachments(rec.attachments ?? [], candidate.attachments ?? [])
+                )
+                .sort((rec1, rec2) => rec1.startTime - rec2.startTime)
+
+            const guildNames = Object.fromEntries(await Promise.all([ ...new Set(spreadRecs.map(rec => rec.gid)) ]
+                .map(async gid => [ gid, await getGuildName(gid) ] as const)
+            ))
+            const [ first ] = spreadRecs
+            const content = ellipsis(await unescapeMessage(rec, { allowImage: false }), config.displayLength)
+
+            const timelineText = spreadRecs
+                .map((spreadRec, i) => {
+                    const delayMinutes = Math.floor((spreadRec.startTime - first.startTime) / 60 / 1000)
+                    const delayText = i ? `（晚 ${Math.floor(delayMinutes / 60)} 小时 ${delayMinutes % 60} 分钟）` : '（最早）'
+                    return `${i + 1}. ${timeText(spreadRec.startTime)}${delayText} ${guildNames[spreadRec.gid]}` +
+                        ` * ${spreadRec.senders.length} # ${spreadRec.id}${spreadRec.id === id ? ' ←' : ''}`
+                })
+                .join('\n')
+
+            return dedent`
+                复读 #${id} [${content}] 前后 ${options.window} 小时内在 ${Object.keys(guildNames).length} 个群中出现了 ${spreadRecs.length} 次
+                最早出现在 ${guildNames[first.gid]}：
+            ` + '\n' + timelineText
+        })
+
     ctx.command('repeat.debug', '复读调试', { hidden: true })
 
     ctx.command('repeat.debug.eval <code:text>', '在本插件作用域中运行 JavaScript', { authority: 4 })
@@ -1522,7 +3971,11 @@ export async function apply(ctx: Context, config: Config) {
         .option('all', '-a 清除所有')
         .action(async ({ session: { gid }, options: { all } }) => {
             const gids = all ? Object.keys(runtimes) : [gid]
-            gids.forEach(gid => delete runtimes[gid])
+            gids.forEach(gid => {
+                delete runtimes[gid]
+                cancelRuntimeSave(gid)
+            })
+            await ctx.database.remove('w-repeat-runtime', all ? {} : { gid })
 
             return `清除了 ${gids.length} 个运行时`
         })
@@ -1534,7 +3987,29 @@ export async function apply(ctx: Context, config: Config) {
         .alias('repeat.a')
 
     ctx.command('repeat.admin.settings [key:string] [value:string]', '管理群复读设置')
+        .option('history', '--history 查看群复读设置修改历史，可以指定设置项')
         .action(async ({ session, options }, key, value) => {
+            if (! session.guildId) return '请在群内调用'
+            const { gid } = session
+
+            if (options.history) {
+                const changes = await ctx.database
+                    .select('w-repeat-settings-history')
+                    .where({ gid, key: key ?? {} })
+                    .orderBy('time', 'desc')
+                    .limit(config.displayPageSize)
+                    .execute()
+                if (! changes.length) return '还没有群复读设置修改记录'
+
+                const memberDict = await getMemberDict(session, session.guildId)
+                return '群复读设置修改历史：\n' + changes
+                    .map(({ key, oldValue, newValue, operator, time }) =>
+                        `${timeText(time)} ${getMemberName(memberDict, operator)}：` +
+                        `${key} ${JSON.stringify(oldValue)} -> ${JSON.stringify(newValue)}`
+                    )
+                    .join('\n')
+            }
+
             const [ member, user ] = await Promise.all([
                 session.bot.getGuildMember(session.guildId, session.userId),
                 session.observeUser([ 'authority' ]),
@@ -1543,7 +4018,8 @@ export async function apply(ctx: Context, config: Config) {
                 return '只有群主、管理员或 Koishi 管理员（权限等级 ≥ 3）可以管理群复读设置。'
             }
 
-            const settings = config.guildSettings[session.gid] ??= config.globalSettings
+            // 复制一份，避免修改全局设置
+            const settings = { ...getGuildSettings(gid) }
 
             const displaySettingItem = (symbol: string, desc) => (key: string) => (
                 `${key}${desc ? ` /* ${RepeatSettings.dict[key].meta.description} */` : ''}${symbol}${JSON.stringify(settings[key])}`
@@ -1568,60 +4044,177 @@ export async function apply(ctx: Context, config: Config) {
                 return `群复读设置：${displaySettingItem(' == ', false)(key)}`
             }
            
+            let validated: RepeatSettings[keyof RepeatSettings]
             try {
-                const validated = RepeatSettings.dict[key](JSON.parse(value))
-                settings[key] = validated
-                ctx.scope.update(config)
-                return `已修改群复读设置：${displaySettingItem(' = ', false)(key)}`
+                validated = RepeatSettings.dict[key](JSON.parse(value))
             }
             catch {
                 return `无法解析设置值 '${value}'`
             }
+
+            const oldValue = settings[key]
+            settings[key] = validated
+            const now = Date.now()
+            await Promise.all([
+                ctx.database.upsert('w-repeat-settings', [{ gid, settings, updateTime: now }]),
+                ctx.database.create('w-repeat-settings-history', {
+                    gid,
+                    key,
+                    oldValue,
+                    newValue: validated,
+                    operator: session.uid,
+                    time: now
+                })
+            ])
+            // 立即生效，无需重载插件
+            guildSettings[gid] = settings
+            return `已修改群复读设置：${displaySettingItem(' = ', false)(key)}`
         })
         
     ctx.command('repeat.admin.regen-user-table', '重建复读用户表', { authority: 4 })
         .action(async ({ session }) => {
             await session.send('正在根据复读记录重建用户数据表……')
-            await ctx.database.remove('w-repeat-user', {})
-            const recs = await ctx.database.get('w-repeat-record', {})
-            const users: Record<string, RepeatUser> = {}
-            const getUser = (uid: string): RepeatUser => users[uid] ??= {
-                uid,
-                repeatTime: 0,
-                repeatCount: 0,
-                beRepeatedTime: 0,
-                beRepeatedCount: 0,
-                interruptTime: 0
-            }
-            recs.forEach(rec => {
-                const starter = getUser(rec.senders[0])
-                starter.beRepeatedTime ++
-                starter.beRepeatedCount += rec.senders.length - 1
-
-                const counted: Record<string, boolean> = {}
-                rec.senders.slice(1).forEach(uid => {
-                    const user = getUser(uid)
-                    user.repeatCount ++
-                    if (! counted[uid]) {
-                        counted[uid] = true
-                        user.repeatTime ++
-                    }
-                })
-
-                getUser(rec.interrupter).interruptTime ++
-            })
-            const writeResult = await ctx.database.upsert('w-repeat-user', () => Object.values(users))
-            return `已重建 ${writeResult.inserted} 条用户数据`
+            const [ userResult, guildUserResult ] = await regenUserTables()
+            return `已重建 ${userResult.inserted} 条用户数据和 ${guildUserResult.inserted} 条群用户数据`
         })
 
+    // 尚未迁移到图片表的旧复读记录
+    const getLegacyImageRecs = async () => (await ctx.database
+        .get('w-repeat-record', row => $.gt($.length(row.images), 0), [ 'id', 'images' ])
+    ).filter(rec => rec.images.some(image => image?.b64))
+
     ctx.command('repeat.admin.ocr-all', '识别所有消息图片', { authority: 4 })
         .action(({ session }) => profile(async () => {
             if (! tesseractWorker) return 'Tesseract 未加载，无法识别图片中文字'
             await session.send('开始查询数据库……')
-            const recs = await ctx.database.get('w-repeat-record', row => $.gt($.length(row.images), 0))
-            const imageCount = recs.reduce((count, rec) => count + rec.images.filter(x => x !== null).length, 0)
-            await session.send(`正在识别 ${recs.length} 条复读记录中的 ${imageCount} 张图片……`)
-            await Promise.all(recs.map(updateImageText))
+            const [ imageData, legacyRecs ] = await Promise.all([
+                ctx.database.get('w-repeat-image', {}, [ 'hash', 'storage', 'b64', 'path' ]),
+                getLegacyImageRecs()
+            ])
+            await session.send(`正在识别图片表中的 ${imageData.length} 张图片和 ${legacyRecs.length} 条旧复读记录中的图片……`)
+            await Promise.all([
+                ...imageData.map(async data => {
+                    const buffer = await loadImage(data)
+                    if (! buffer) return
+                    const res = await tesseractWorker.recognize(buffer)
+                    await ctx.database.set('w-repeat-image', { hash: data.hash }, { text: res.data.text })
+                }),
+                ...legacyRecs.map(rec => updateImageText(rec as RepeatRecord))
+            ])
+        }))
+
+    ctx.command('repeat.admin.hash-all', '计算所有消息图片的感知哈希', { authority: 4 })
+        .option('force', '-f 重新计算已有的感知哈希')
+        .action(({ session, options }) => profile(async () => {
+            if (! ctx.canvas) return '此指令需要 canvas 服务'
+            await session.send('开始查询数据库……')
+            const [ imageData, legacyRecs ] = await Promise.all([
+                ctx.database.get('w-repeat-image', options.force ? {} : { phash: null }, [ 'hash', 'storage', 'b64', 'path' ]),
+                getLegacyImageRecs().then(recs => recs
+                    .filter(rec => rec.images.some(image => image?.b64 && (options.force || ! image.phash)))
+                )
+            ])
+            await session.send(`正在计算图片表中的 ${imageData.length} 张图片和 ${legacyRecs.length} 条旧复读记录中图片的感知哈希……`)
+            let failedCount = 0
+            // canvas 开销较大，逐张处理
+            for (const data of imageData) {
+                const buffer = await loadImage(data)
+                const phash = buffer && await tryGetImagePhash(buffer)
+                if (phash) await ctx.database.set('w-repeat-image', { hash: data.hash }, { phash })
+                else failedCount ++
+            }
+            for (const rec of legacyRecs) {
+                for (const image of rec.images) {
+                    if (! image?.b64 || (image.phash && ! options.force)) continue
+                    image.phash = await tryGetImagePhash(Buffer.from(image.b64, 'base64'))
+                    if (! image.phash) failedCount ++
+                }
+                await ctx.database.set('w-repeat-record', { id: rec.id }, { images: rec.images })
+            }
+            if (failedCount) return `有 ${failedCount} 张图片计算失败`
+        }))
+
+    ctx.command('repeat.admin.migrate-images', '将复读记录中的图片迁移到图片表', { authority: 4 })
+        .action(({ session }) => profile(async () => {
+            await session.send('开始查询数据库……')
+            const ids = (await ctx.database
+                .get('w-repeat-record', row => $.gt($.length(row.images), 0), [ 'id' ])
+            ).map(rec => rec.id)
+            await session.send(`正在迁移 ${ids.length} 条复读记录中的图片……`)
+            let migratedCount = 0
+            // 分批读取，避免一次性读入所有图片
+            const BATCH_SIZE = 100
+            for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+                const recs = await ctx.database.get('w-repeat-record', {
+                    id: { $in: ids.slice(i, i + BATCH_SIZE) }
+                }, [ 'id', 'images' ])
+                for (const rec of recs) {
+                    if (! rec.images.some(image => image?.b64)) continue
+                    await ctx.database.set('w-repeat-record', { id: rec.id }, { images: await storeImages(rec.images) })
+                    migratedCount ++
+                }
+            }
+            return `已迁移 ${migratedCount} 条复读记录`
+        }))
+
+    ctx.command('repeat.admin.migrate-image-storage', '将图片迁移到当前配置的存储方式', { authority: 4 })
+        .option('thumbnail', '-t 同时为没有缩略图的图片生成缩略图')
+        .action(({ session, options }) => profile(async () => {
+            const storage = getImageStorage()
+            if (options.thumbnail && ! (config.imageThumbnailSize && ctx.canvas)) return '生成缩略图需要设置缩略图大小并启用 canvas 服务'
+
+            await session.send('开始查询数据库……')
+            const hashes = (await ctx.database.get('w-repeat-image', {}, [ 'hash', 'storage', 'thumbnail' ]))
+                .filter(data => (data.storage ?? 'database') !== storage || options.thumbnail && ! data.thumbnail)
+                .map(data => data.hash)
+            await session.send(`正在迁移 ${hashes.length} 张图片到 ${storage}……`)
+
+            let migratedCount = 0, missingCount = 0
+            for (const batch of chunk(hashes, 20)) {
+                const imageData = await ctx.database.get('w-repeat-image', { hash: { $in: batch } })
+                for (const data of imageData) {
+                    const buffer = await loadImage(data)
+                    if (! buffer) {
+                        missingCount ++
+                        continue
+                    }
+                    await ctx.database.set('w-repeat-image', { hash: data.hash }, {
+                        ...(data.storage ?? 'database') === storage ? {} : await saveImage(data.hash, buffer, storage),
+                        ...options.thumbnail && ! data.thumbnail ? { thumbnail: await getThumbnail(buffer) } : {}
+                    })
+                    migratedCount ++
+                }
+            }
+            return `已迁移 ${migratedCount} 张图片${missingCount ? `，${missingCount} 张图片已丢失` : ''}（原有的图片文件不会被删除）`
+        }))
+
+    ctx.command('repeat.admin.migrate-attachments', '将复读记录内容中的附件元素转为附件列表', { authority: 4 })
+        .action(({ session }) => profile(async () => {
+            await session.send('开始查询数据库……')
+            const attachmentRegExp = new RegExp(`<(${[ ...Object.keys(ATTACHMENT_KEY_ATTRS), 'message' ].join('|')})[\\s/>]`)
+            const ids = (await ctx.database
+                .get('w-repeat-record', row => $.regex(row.content, attachmentRegExp), [ 'id' ])
+            ).map(rec => rec.id)
+            await session.send(`正在迁移 ${ids.length} 条复读记录中的附件……`)
+            let migratedCount = 0
+            for (const batch of chunk(ids, 100)) {
+                const recs = await ctx.database.get('w-repeat-record', { id: { $in: batch } }, [ 'id', 'gid', 'content' ])
+                for (const rec of recs) {
+                    const { content, attachments } = extractAttachments(rec.content)
+                    if (! attachments.length) continue
+                    // 匹配内容也需要按群设置重新规范化
+                    const { normalizers = [] } = getGuildSettings(rec.gid)
+                    const [ platform ] = rec.gid.split(':')
+                    const selfId = ctx.bots.find(bot => bot.platform === platform)?.selfId
+                    await ctx.database.set('w-repeat-record', { id: rec.id }, {
+                        content,
+                        attachments,
+                        key: normalizeContent(content, normalizers, selfId)
+                    })
+                    migratedCount ++
+                }
+            }
+            return `已迁移 ${migratedCount} 条复读记录`
         }))
 
     ctx.command('repeat.admin.segmentation-all', '对所有消息分词', { authority: 4 })
@@ -1649,11 +4242,329 @@ export async function apply(ctx: Context, config: Config) {
     ctx.command('repeat.admin.migrate-guild <from:channel> <to:channel>', '迁移群复读记录', { authority: 4 })
         .action(async (_, from, to) => {
             const res = await ctx.database.set('w-repeat-record', { gid: from }, { gid: to })
+
+            // 将群用户数据合并到目标群
+            const guildUsers = await ctx.database.get('w-repeat-guild-user', { gid: from })
+            if (guildUsers.length) {
+                await ctx.database.upsert('w-repeat-guild-user', row => guildUsers.map(user => ({
+                    gid: to,
+                    uid: user.uid,
+                    ...addUserCounters(row, user)
+                })))
+                await ctx.database.remove('w-repeat-guild-user', { gid: from })
+            }
+
+            // 将分词数据合并到目标群
+            const words = await ctx.database.get('w-repeat-word', { gid: from })
+            if (words.length) {
+                await ctx.database.upsert('w-repeat-word', row => words.map(({ word, tag, count }) => ({
+                    gid: to,
+                    word,
+                    tag,
+                    count: $.add(row.count, count)
+                })))
+                await ctx.database.remove('w-repeat-word', { gid: from })
+            }
+
+            // 将成就合并到目标群，保留较早的解锁时间
+            const unlocks = await ctx.database.get('w-repeat-achievement', { gid: from })
+            if (unlocks.length) {
+                const existingUnlocks = await ctx.database.get('w-repeat-achievement', { gid: to })
+                await ctx.database.upsert('w-repeat-achievement', unlocks.map(unlock => {
+                    const existing = existingUnlocks.find(({ uid, key }) => uid === unlock.uid && key === unlock.key)
+                    return {
+                        ...unlock,
+                        gid: to,
+                        unlockTime: Math.min(unlock.unlockTime, existing?.unlockTime ?? Infinity)
+                    }
+                }))
+                await ctx.database.remove('w-repeat-achievement', { gid: from })
+            }
+
+            // 两个群的日历都已失效，删除后重新汇总
+            await ctx.database.remove('w-repeat-calendar', { gid: { $in: [ from, to ] } })
+            await rollupCalendar()
+
             return `成功从 ${from} 迁移了 ${res.modified} 条复读记录到 ${to}。`
         })
 
+    // 导出与导入
+    const EXPORT_VERSION = 1
+    const EXPORT_BATCH_SIZE = 200
+
+    const exportTables = {
+        'record': 'w-repeat-record',
+        'user': 'w-repeat-user',
+        'guild-user': 'w-repeat-guild-user',
+        'calendar': 'w-repeat-calendar',
+        'word': 'w-repeat-word',
+        'image': 'w-repeat-image',
+        'achievement': 'w-repeat-achievement'
+    } as const satisfies Record<RepeatExportType, keyof Tables>
+
+    ctx.command('repeat.admin.export', '导出复读数据', { authority: 4 })
+        .option('guild', '-g <guild:channel> 只导出指定群的数据')
+        .option('duration',
+            '-d <duration:string> 指定复读记录的时间范围。可以为 hour/day/week/month/all，或者用波浪号（~）分割的开始、结束时间',
+            { fallback: 'all' }
+        )
+        .action(({ session, options }) => profile(async () => {
+            const { guild: gid, duration } = options
+            const filter: RepeatRecordFilter = { gid, duration }
+            // 统计数据无法按时间范围筛选，只在导出全部时间时导出
+            const isAllTime = duration === 'all'
+
+            const dir = resolve(ctx.baseDir, 'data/w-repeat/exports')
+            await mkdir(dir, { recursive: true })
+            const path = resolve(dir, `repeat-${dayjs().format('YYYYMMDD-HHmmss')}.jsonl`)
+            const stream = createWriteStream(path)
+            const writeLine = async <K extends RepeatExportType>(line: RepeatExportHeader | RepeatExportItem<K>) => {
+                if (! stream.write(JSON.stringify(line) + '\n')) await once(stream, 'drain')
+            }
+
+            const counts: Partial<Record<RepeatExportType, number>> = {}
+            const writeItems = async <K extends RepeatExportType>(type: K, items: RepeatExportTables[K][]) => {
+                counts[type] = (counts[type] ?? 0) + items.length
+                for (const data of items) await writeLine({ type, data } as RepeatExportItem<K>)
+            }
+
+            await session.send('正在导出复读数据……')
+            await writeLine({ type: 'header', version: EXPORT_VERSION, exportTime: Date.now(), gid, duration })
+
+            // 分批导出复读记录，同时收集引用的图片
+            const hashes = new Set<string>()
+            const ids = (await ctx.database.get('w-repeat-record', row => filterRecords(row, filter), [ 'id' ]))
+                .map(rec => rec.id)
+            for (const batch of chunk(ids, EXPORT_BATCH_SIZE)) {
+                const recs = await ctx.database.get('w-repeat-record', { id: { $in: batch } })
+                recs.forEach(rec => rec.images?.forEach(image => image?.hash && hashes.add(image.hash)))
+                await writeItems('record', recs)
+            }
+
+            if (isAllTime) {
+                const gidQuery = gid ? { gid } : {}
+                if (! gid) await writeItems('user', await ctx.database.get('w-repeat-user', {}))
+                await writeItems('guild-user', await ctx.database.get('w-repeat-guild-user', gidQuery))
+                await writeItems('calendar', await ctx.database.get('w-repeat-calendar', gidQuery))
+                await writeItems('word', await ctx.database.get('w-repeat-word', gidQuery))
+                await writeItems('achievement', await ctx.database.get('w-repeat-achievement', gidQuery))
+            }
+
+            // 导出文件中的图片总是包含图片内容
+            for (const batch of chunk([ ...hashes ], EXPORT_BATCH_SIZE))
+                await writeItems('image', await Promise.all((await ctx.database.get('w-repeat-image', { hash: { $in: batch } }))
+                    .map(async data => ({
+                        ...data,
+                        storage: 'database',
+                        b64: (await loadImage(data))?.toString('base64') ?? null,
+                        path: null
+                    }))
+                ))
+
+            stream.end()
+            await once(stream, 'finish')
+
+            const countText = Object.entries(counts).map(([ type, count ]) => `${type} * ${count}`).join(', ')
+            return `已导出到 ${path}\n${countText}${isAllTime ? '' : '\n（指定时间范围时不导出统计数据）'}`
+        }))
+
+    ctx.command('repeat.admin.import <file:string>', '导入复读数据', { authority: 4 })
+        .option('conflict',
+            '-c <strategy> 导入策略：renumber 将复读记录重新编号后追加，并将统计数据累加到已有数据；skip 跳过已有数据；overwrite 覆盖已有数据',
+            { type: /^(renumber|skip|overwrite)$/, fallback: 'renumber' }
+        )
+        .action(({ session, options }, file) => profile(async () => {
+            const strategy = options.conflict as 'renumber' | 'skip' | 'overwrite'
+            const path = resolve(ctx.baseDir, file)
+            try {
+                await access(path)
+            }
+            catch {
+                return `找不到导入文件 ${path}`
+            }
+
+            const counts: Partial<Record<RepeatExportType, number>> = {}
+            let skippedCount = 0
+
+            // 跳过已有数据，用第一个主键批量查询
+            const skipExisting = async <T, F extends keyof T & string>(
+                items: T[],
+                keys: F[],
+                getExisting: (values: T[F][]) => Promise<Pick<T, F>[]>
+            ) => {
+                const toKey = (item: Pick<T, F>) => keys.map(key => item[key]).join('#')
+                const existingKeys = new Set((await getExisting(items.map(item => item[keys[0]]))).map(toKey))
+                const toWrite = items.filter(item => ! existingKeys.has(toKey(item)))
+                skippedCount += items.length - toWrite.length
+                return toWrite
+            }
+
+            // 按 skip 或 overwrite 策略写入
+            const writeOrSkip = async <T, F extends keyof T & string>(
+                items: T[],
+                keys: F[],
+                getExisting: (values: T[F][]) => Promise<Pick<T, F>[]>,
+                write: (items: T[]) => Promise<unknown>
+            ) => {
+                if (strategy === 'skip') items = await skipExisting(items, keys, getExisting)
+                if (items.length) await write(items)
+            }
+
+            // 日历由复读记录汇总得到，导入记录后需要重新汇总
+            const staleCalendarGids = new Set<string>()
+
+            const importers: { [K in RepeatExportType]: (items: RepeatExportTables[K][]) => Promise<void> } = {
+                'record': async items => {
+                    items.forEach(item => staleCalendarGids.add(item.gid))
+                    if (strategy !== 'renumber') return writeOrSkip(
+                        items, [ 'id' ],
+                        ids => ctx.database.get('w-repeat-record', { id: { $in: ids } }, [ 'id' ]),
+                        items => ctx.database.upsert('w-repeat-record', items)
+                    )
+                    for (const item of items) await ctx.database.create('w-repeat-record', omit(item, [ 'id' ]))
+                },
+                'user': async items => {
+                    if (strategy !== 'renumber') return writeOrSkip(
+                        items, [ 'uid' ],
+                        uids => ctx.database.get('w-repeat-user', { uid: { $in: uids } }, [ 'uid' ]),
+                        items => ctx.database.upsert('w-repeat-user', items)
+                    )
+                    await ctx.database.upsert('w-repeat-user', row => items.map(user => ({
+                        uid: user.uid,
+                        ...addUserCounters(row, user)
+                    })))
+                },
+                'guild-user': async items => {
+                    if (strategy !== 'renumber') return writeOrSkip(
+                        items, [ 'uid', 'gid' ],
+                        uids => ctx.database.get('w-repeat-guild-user', { uid: { $in: uids } }, [ 'uid', 'gid' ]),
+                        items => ctx.database.upsert('w-repeat-guild-user', items)
+                    )
+                    await ctx.database.upsert('w-repeat-guild-user', row => items.map(user => ({
+                        gid: user.gid,
+                        uid: user.uid,
+                        ...addUserCounters(row, user)
+                    })))
+                },
+                'calendar': async items => {
+                    if (strategy !== 'renumber') return writeOrSkip(
+                        items, [ 'month', 'gid', 'day' ],
+                        months => ctx.database.get('w-repeat-calendar', { month: { $in: months } }, [ 'month', 'gid', 'day' ]),
+                        items => ctx.database.upsert('w-repeat-calendar', items)
+                    )
+                    skippedCount += items.length
+                },
+                'word': async items => {
+                    if (strategy !== 'renumber') return writeOrSkip(
+                        items, [ 'word', 'gid', 'tag' ],
+                        words => ctx.database.get('w-repeat-word', { word: { $in: words } }, [ 'word', 'gid', 'tag' ]),
+                        items => ctx.database.upsert('w-repeat-word', items)
+                    )
+                    await ctx.database.upsert('w-repeat-word', row => items.map(({ gid, word, tag, count }) => ({
+                        gid,
+                        word,
+                        tag,
+                        count: $.add(row.count, count)
+                    })))
+                },
+                'image': async items => {
+                    // 图片以内容哈希为主键，已存在的图片总是相同的
+                    const toWrite = await skipExisting(
+                        items, [ 'hash' ],
+                        hashes => ctx.database.get('w-repeat-image', { hash: { $in: hashes } }, [ 'hash' ])
+                    )
+                    if (! toWrite.length) return
+                    // 导入的图片按当前配置的存储方式保存
+                    await ctx.database.upsert('w-repeat-image', getImageStorage() === 'database' ? toWrite : await Promise.all(toWrite
+                        .map(async data => data.b64
+                            ? { ...data, ...await saveImage(data.hash, Buffer.from(data.b64, 'base64')) }
+                            : data
+                        )
+                    ))
+                },
+                'achievement': async items => {
+                    if (strategy !== 'renumber') return writeOrSkip(
+                        items, [ 'uid', 'gid', 'key' ],
+                        uids => ctx.database.get('w-repeat-achievement', { uid: { $in: uids } }, [ 'uid', 'gid', 'key' ]),
+                        items => ctx.database.upsert('w-repeat-achievement', items)
+                    )
+                    // 合并到已有成就，保留较早的解锁时间
+                    const existingUnlocks = await ctx.database.get('w-repeat-achievement', { uid: { $in: items.map(item => item.uid) } })
+                    await ctx.database.upsert('w-repeat-achievement', items.map(unlock => {
+                        const existing = existingUnlocks
+                            .find(({ gid, uid, key }) => gid === unlock.gid && uid === unlock.uid && key === unlock.key)
+                        return { ...unlock, unlockTime: Math.min(unlock.unlockTime, existing?.unlockTime ?? Infinity) }
+                    }))
+                }
+            }
+
+            const buffers: { [K in RepeatExportType]?: RepeatExportTables[K][] } = {}
+            const flush = async <K extends RepeatExportType>(type: K) => {
+                const items = buffers[type]
+                if (! items?.length) return
+                buffers[type] = []
+                await importers[type](items)
+                counts[type] = (counts[type] ?? 0) + items.length
+            }
+            const bufferItem = async <K extends RepeatExportType>({ type, data }: RepeatExportItem<K>) => {
+                const items: RepeatExportTables[K][] = buffers[type] ??= []
+                items.push(data)
+                if (items.length >= EXPORT_BATCH_SIZE) await flush(type)
+            }
+
+            let header: RepeatExportHeader = undefined
+            let lineNumber = 0
+            const input = createReadStream(path)
+            const lines = createInterface({ input, crlfDelay: Infinity })
+            try {
+                for await (const text of lines) {
+                    lineNumber ++
+                    if (! text.trim()) continue
+
+                    let line: RepeatExportLine
+                    try {
+                        line = JSON.parse(text)
+                    }
+                    catch {
+                        return `第 ${lineNumber} 行不是合法的 JSON`
+                    }
+
+                    if (! header) {
+                        if (line.type !== 'header') return '导入文件缺少文件头'
+                        if (line.version > EXPORT_VERSION) return `不支持的导出文件版本 ${line.version}，请更新插件`
+                        header = line
+                        await session.send(`正在导入 ${timeText(header.exportTime)} 导出的复读数据……`)
+                        continue
+                    }
+
+                    if (line.type === 'header' || ! (line.type in exportTables)) return `第 ${lineNumber} 行的数据类型未知`
+                    await bufferItem(line)
+                }
+            }
+            finally {
+                lines.close()
+                input.destroy()
+            }
+            if (! header) return '导入文件为空'
+
+            for (const type of Object.keys(buffers) as RepeatExportType[]) await flush(type)
+
+            if (staleCalendarGids.size) {
+                await ctx.database.remove('w-repeat-calendar', { gid: { $in: [ ...staleCalendarGids ] } })
+                await rollupCalendar()
+            }
+
+            const countText = Object.entries(counts).map(([ type, count ]) => `${type} * ${count}`).join(', ')
+            return `已导入 ${countText}${skippedCount ? `，跳过了 ${skippedCount} 条已有数据` : ''}`
+        }))
+
     // 回收副作用
-    ctx.on('dispose', () => {
+    ctx.on('dispose', async () => {
+        // 等待排队的消息和后台写入完成，再立即保存尚未保存的运行时
+        isDisposing = true
+        await Promise.all(Object.values(messageQueues))
+        await Promise.all(pendingWrites)
+        await Promise.all(Object.keys(runtimeSaveTimers).map(saveRuntime))
         // 终止 tesseract Worker
         tesseractWorker?.terminate()
     })